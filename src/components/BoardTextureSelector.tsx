@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  BoardTextureFilter,
+  CONNECT_TEXTURES,
+  HEIGHT_TEXTURES,
+  PAIR_TEXTURES,
+  SUIT_TEXTURES,
+  TEXTURE_LABELS,
+  filterFlops,
+  getFlopsFrequency,
+} from "@/lib/boardTextures";
+
+interface BoardTextureSelectorProps {
+  value: BoardTextureFilter;
+  onChange: (value: BoardTextureFilter) => void;
+  idPrefix: string; // Keeps checkbox ids unique when the selector is shown twice
+}
+
+const GROUPS: { key: keyof BoardTextureFilter; title: string; values: readonly (keyof typeof TEXTURE_LABELS)[] }[] = [
+  { key: 'suits', title: 'Масти', values: SUIT_TEXTURES },
+  { key: 'pairing', title: 'Спаренность', values: PAIR_TEXTURES },
+  { key: 'connectivity', title: 'Связанность', values: CONNECT_TEXTURES },
+  { key: 'height', title: 'Высота', values: HEIGHT_TEXTURES },
+];
+
+// Checkbox groups for flop textures; nothing checked in a group accepts every value of it.
+export const BoardTextureSelector = ({ value, onChange, idPrefix }: BoardTextureSelectorProps) => {
+  const flops = useMemo(() => filterFlops(value), [value]);
+
+  const toggle = (key: keyof BoardTextureFilter, texture: keyof typeof TEXTURE_LABELS) => {
+    const values = value[key] as string[];
+    onChange({
+      ...value,
+      [key]: values.includes(texture) ? values.filter(item => item !== texture) : [...values, texture],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {GROUPS.map(group => (
+          <div key={group.key} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{group.title}</p>
+            {group.values.map(texture => {
+              const id = `${idPrefix}-${texture}`;
+              return (
+                <div key={texture} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={id}
+                    checked={(value[group.key] as string[]).includes(texture)}
+                    onCheckedChange={() => toggle(group.key, texture)}
+                  />
+                  <Label htmlFor={id} className="text-sm">{TEXTURE_LABELS[texture]}</Label>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Подходит флопов: <span className="font-mono">{flops.length}</span> из 1755
+        ({(getFlopsFrequency(flops) * 100).toFixed(1)}% раздач)
+      </p>
+    </div>
+  );
+};
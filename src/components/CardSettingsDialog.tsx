@@ -0,0 +1,71 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { PokerCard } from "./PokerCard";
+import { useCardSettings } from "@/hooks/use-card-settings";
+import { CardDeck, CardStyle } from "@/lib/persistence";
+
+interface CardSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DECK_OPTIONS: { value: CardDeck; label: string }[] = [
+  { value: 'two-color', label: 'Двухцветная' },
+  { value: 'four-color', label: 'Четырёхцветная' },
+];
+
+const STYLE_OPTIONS: { value: CardStyle; label: string }[] = [
+  { value: 'filled', label: 'Заливка мастью' },
+  { value: 'classic', label: 'Классические' },
+  { value: 'minimal', label: 'Минималистичные' },
+];
+
+const PREVIEW_CARDS = ['As', 'Kh', 'Qd', 'Jc'];
+
+export const CardSettingsDialog = ({ open, onOpenChange }: CardSettingsDialogProps) => {
+  const { settings, setCardSettings } = useCardSettings();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Вид карт</DialogTitle>
+          <DialogDescription>
+            Настройки применяются ко всем картам в тренировках.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <PokerCard cards={PREVIEW_CARDS} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Колода</Label>
+            <RadioGroup value={settings.deck} onValueChange={(value: CardDeck) => setCardSettings({ deck: value })}>
+              {DECK_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`card-deck-${option.value}`} />
+                  <Label htmlFor={`card-deck-${option.value}`}>{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Стиль</Label>
+            <RadioGroup value={settings.style} onValueChange={(value: CardStyle) => setCardSettings({ style: value })}>
+              {STYLE_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`card-style-${option.value}`} />
+                  <Label htmlFor={`card-style-${option.value}`}>{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
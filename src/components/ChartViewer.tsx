@@ -117,6 +117,8 @@ export const ChartViewer = ({ isMobileMode = false, chart, allRanges, onBackToCh
               <div className="absolute inset-0 flex items-center justify-center p-4">
                 <PokerMatrix
                   selectedHands={displayedRange.hands}
+                  combos={displayedRange.combos}
+                  mixes={displayedRange.mixes}
                   onHandSelect={() => {}}
                   activeAction=""
                   actionButtons={actionButtons}
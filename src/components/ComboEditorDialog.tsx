@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ActionButton, Range, SimpleActionButton } from "@/contexts/RangeContext";
+import { SUITS, isPair } from "@/lib/poker";
+import { setComboAction, clearHandCombos, hasComboOverrides } from "@/lib/rangeCombos";
+import { getComboStrategy, setHandMix } from "@/lib/rangeStrategy";
+import { FOLD_COLOR, getActionButtonStyle, getActionSegments, getSegmentsBackground } from "@/lib/actionColors";
+import { FrequencyEditor } from "./FrequencyEditor";
+
+interface ComboEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hand: string | null;
+  range: Range;
+  actionButtons: ActionButton[];
+  activeAction: string;
+  onChange: (updated: Pick<Range, 'hands' | 'combos' | 'mixes'>) => void;
+}
+
+const SUIT_SYMBOLS: Record<string, string> = { s: '♠', h: '♥', d: '♦', c: '♣' };
+const RED_SUITS = ['h', 'd'];
+
+// Whether the suit pair (row, col) is a valid combo of the hand in a 4x4 suit grid.
+const isComboCell = (hand: string, row: number, col: number) => {
+  if (isPair(hand)) return row < col;
+  return hand.endsWith('s') ? row === col : row !== col;
+};
+
+export const ComboEditorDialog = ({ open, onOpenChange, hand, range, actionButtons, activeAction, onChange }: ComboEditorDialogProps) => {
+  // The editor's mix brush has no combo counterpart, combos are painted with fold instead
+  const initialAction = actionButtons.some(button => button.id === activeAction) ? activeAction : 'fold';
+  const [paintAction, setPaintAction] = useState(initialAction);
+
+  useEffect(() => {
+    if (open) setPaintAction(initialAction);
+  }, [open, initialAction]);
+
+  if (!hand) return null;
+
+  const simpleActions = actionButtons.filter(b => b.type === 'simple') as SimpleActionButton[];
+
+  // Frequencies of the whole hand: its mix, or 100% of a plainly painted simple action
+  const handMix = range.mixes?.[hand]
+    ?? (simpleActions.some(a => a.id === range.hands[hand]) ? { [range.hands[hand]]: 100 } : {});
+
+  const handleComboClick = (combo: string) => {
+    const strategy = getComboStrategy(range, combo);
+    const next = strategy[paintAction] === 1 ? 'fold' : paintAction;
+    onChange(setComboAction(range, combo, next));
+  };
+
+  const handleReset = () => {
+    onChange({ hands: range.hands, mixes: range.mixes, combos: clearHandCombos(range.combos, [hand]) });
+  };
+
+  const renderSuit = (suit: string) => (
+    <span className={cn(RED_SUITS.includes(suit) && "text-red-500")}>{SUIT_SYMBOLS[suit]}</span>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Рука {hand}</DialogTitle>
+          <DialogDescription>
+            Задайте частоты действий для руки или назначьте действие отдельным комбинациям.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {simpleActions.length > 0 && (
+            <div className="space-y-2 rounded-md border p-3">
+              <h4 className="text-sm font-medium">Частоты</h4>
+              <FrequencyEditor
+                actions={simpleActions}
+                value={handMix}
+                onChange={(mix) => onChange(setHandMix(range, hand, mix))}
+              />
+            </div>
+          )}
+
+          <h4 className="text-sm font-medium">Комбинации</h4>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              onClick={() => setPaintAction('fold')}
+              style={{ backgroundColor: FOLD_COLOR }}
+              className={cn(
+                "text-white hover:opacity-90",
+                paintAction === 'fold' && "ring-2 ring-offset-2 ring-primary"
+              )}
+            >
+              Fold
+            </Button>
+            {actionButtons.map(button => (
+              <Button
+                key={button.id}
+                size="sm"
+                onClick={() => setPaintAction(button.id)}
+                style={getActionButtonStyle(button, actionButtons)}
+                className={cn(
+                  "text-white hover:opacity-90",
+                  paintAction === button.id && "ring-2 ring-offset-2 ring-primary"
+                )}
+              >
+                {button.name}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-5 gap-1 text-sm">
+            <div />
+            {SUITS.map(suit => (
+              <div key={suit} className="text-center font-bold">{hand[1]}{renderSuit(suit)}</div>
+            ))}
+            {SUITS.map((rowSuit, row) => (
+              <div key={rowSuit} className="contents">
+                <div className="flex items-center justify-center font-bold">{hand[0]}{renderSuit(rowSuit)}</div>
+                {SUITS.map((colSuit, col) => {
+                  if (!isComboCell(hand, row, col)) {
+                    return <div key={colSuit} className="aspect-square rounded-md bg-muted/20" />;
+                  }
+                  const combo = `${hand[0]}${rowSuit}${hand[1]}${colSuit}`;
+                  const strategy = getComboStrategy(range, combo);
+                  const isFolded = strategy.fold === 1;
+                  const segments = Object.entries(strategy).flatMap(([actionId, fraction]) =>
+                    getActionSegments(actionId, actionButtons, fraction)
+                  );
+                  return (
+                    <button
+                      key={colSuit}
+                      type="button"
+                      onClick={() => handleComboClick(combo)}
+                      className={cn(
+                        "aspect-square rounded-md border font-mono text-xs transition-all hover:ring-2 hover:ring-ring",
+                        isFolded ? "bg-muted/50 text-muted-foreground" : "text-white border-transparent"
+                      )}
+                      style={isFolded ? {} : { background: getSegmentsBackground(segments) }}
+                    >
+                      {hand[0]}{SUIT_SYMBOLS[rowSuit]}{hand[1]}{SUIT_SYMBOLS[colSuit]}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReset} disabled={!hasComboOverrides(range, hand)}>
+            Сбросить комбинации
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Готово</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils";
+
+interface CountdownRingProps {
+  remaining: number; // ms
+  total: number; // ms
+  className?: string;
+}
+
+const RADIUS = 20;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Ring that empties as the time for the answer runs out, turning red in the last third.
+export const CountdownRing = ({ remaining, total, className }: CountdownRingProps) => {
+  const fraction = total > 0 ? Math.max(0, Math.min(1, remaining / total)) : 0;
+
+  return (
+    <div className={cn("relative w-14 h-14 sm:w-16 sm:h-16", className)}>
+      <svg viewBox="0 0 48 48" className="w-full h-full -rotate-90">
+        <circle cx="24" cy="24" r={RADIUS} fill="rgba(0,0,0,0.7)" stroke="rgba(255,255,255,0.15)" strokeWidth="4" />
+        <circle
+          cx="24"
+          cy="24"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="4"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          className={cn("transition-[stroke-dashoffset] duration-100", fraction > 1 / 3 ? "stroke-green-500" : "stroke-red-500")}
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center text-white font-mono font-bold text-sm sm:text-base">
+        {Math.ceil(remaining / 1000)}
+      </div>
+    </div>
+  );
+};
@@ -8,6 +8,30 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useRangeContext } from "@/contexts/RangeContext";
+import { BoardTextureSelector } from "./BoardTextureSelector";
+import { SpotBuilder } from "./SpotBuilder";
+import {
+  DEFAULT_SPOT_HANDS,
+  HANDS_PER_SPOT,
+  SPOT_HANDS_LABELS,
+  SpotHands,
+  SpotSource,
+  TableSpot,
+  getSpotSourceRanges,
+} from "@/lib/tableSpots";
+import { loadCollection } from "@/lib/persistence";
+import { ANSWER_MODE_LABELS, AnswerMode } from "@/lib/answerGrading";
+import { TIME_LIMITS } from "@/lib/trainingAnswers";
+import { BoardTextureFilter, EMPTY_TEXTURE_FILTER, filterFlops } from "@/lib/boardTextures";
+import {
+  BORDER_DISTANCES,
+  BORDER_SAMPLE_SIZES,
+  DEFAULT_BORDER_DISTANCE,
+  DEFAULT_BORDER_SAMPLE_SIZE,
+} from "@/lib/rangeBorders";
+
+const QUESTION_COUNTS = [20, 30, 50, 100];
+const DEFAULT_QUESTION_COUNT = 30;
 
 interface CreateTrainingDialogProps {
   open: boolean;
@@ -17,13 +41,48 @@ interface CreateTrainingDialogProps {
 
 export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: CreateTrainingDialogProps) => {
   const [name, setName] = useState("");
-  const [trainingType, setTrainingType] = useState<"classic" | "border-repeat">("classic");
+  const [trainingType, setTrainingType] = useState<"classic" | "border-repeat" | "spaced-repetition" | "scenario" | "random-spots">("classic");
   const [classicSubtype, setClassicSubtype] = useState<"all-hands" | "border-check">("all-hands");
   const [selectedRanges, setSelectedRanges] = useState<string[]>([]);
+  const [borderDistance, setBorderDistance] = useState(DEFAULT_BORDER_DISTANCE);
+  const [borderSampleSize, setBorderSampleSize] = useState(DEFAULT_BORDER_SAMPLE_SIZE);
+  const [spots, setSpots] = useState<TableSpot[]>([]);
+  const [spotHands, setSpotHands] = useState<SpotHands>(DEFAULT_SPOT_HANDS);
+  const [spotSource, setSpotSource] = useState<SpotSource>("folders");
+  const [selectedFolders, setSelectedFolders] = useState<string[]>([]);
+  const [selectedChart, setSelectedChart] = useState("");
+  const [questionCount, setQuestionCount] = useState(DEFAULT_QUESTION_COUNT);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>("action");
+  const [timeLimit, setTimeLimit] = useState("none");
+  const [isBoardShown, setBoardShown] = useState(false);
+  const [boardTextures, setBoardTextures] = useState<BoardTextureFilter>(EMPTY_TEXTURE_FILTER);
   
   const { folders } = useRangeContext();
+  const charts = loadCollection('charts', []);
 
   const hasRanges = folders.some(folder => folder.ranges.length > 0);
+  const hasBoard = trainingType === 'classic' && isBoardShown;
+  const isBorderCheck = trainingType === 'classic' && classicSubtype === 'border-check';
+  const isScenario = trainingType === 'scenario';
+  const isRandomSpots = trainingType === 'random-spots';
+
+  // Random spots are drawn from every range of the folders or every range the chart links to
+  const spotSourceIds = spotSource === 'folders' ? selectedFolders : [selectedChart];
+
+  // A scenario training takes the ranges of its spots
+  const trainingRanges = isScenario
+    ? [...new Set(spots.map(spot => spot.rangeId).filter(Boolean))]
+    : isRandomSpots ? getSpotSourceRanges(folders, charts, spotSource, spotSourceIds) : selectedRanges;
+  const hasSpots = !isScenario || (spots.length > 0 && spots.every(spot => spot.rangeId));
+  const hasFlops = !hasBoard || filterFlops(boardTextures).length > 0;
+
+  const handleFolderToggle = (folderId: string) => {
+    setSelectedFolders(prev =>
+      prev.includes(folderId)
+        ? prev.filter(id => id !== folderId)
+        : [...prev, folderId]
+    );
+  };
 
   const handleRangeToggle = (rangeId: string) => {
     setSelectedRanges(prev => 
@@ -34,14 +93,24 @@ export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: C
   };
 
   const handleCreate = () => {
-    if (!name.trim() || selectedRanges.length === 0 || !hasRanges) return;
+    if (!name.trim() || trainingRanges.length === 0 || !hasRanges || !hasFlops || !hasSpots) return;
 
     const training = {
       id: Date.now().toString(),
       name: name.trim(),
       type: trainingType,
-      subtype: trainingType === 'classic' ? classicSubtype : undefined,
-      ranges: selectedRanges,
+      subtype: trainingType === 'classic' ? classicSubtype : isRandomSpots ? spotSource : undefined,
+      ranges: trainingRanges,
+      spots: isScenario ? spots : undefined,
+      spotHands: isScenario ? spotHands : undefined,
+      folderIds: isRandomSpots && spotSource === 'folders' ? selectedFolders : undefined,
+      chartId: isRandomSpots && spotSource === 'chart' ? selectedChart : undefined,
+      questionCount: isRandomSpots ? questionCount : undefined,
+      answerMode: trainingType !== 'border-repeat' ? answerMode : undefined,
+      timeLimit: trainingType !== 'border-repeat' && timeLimit !== 'none' ? Number(timeLimit) : undefined, // Seconds per question
+      borderDistance: isBorderCheck ? borderDistance : undefined, // Cells from a hand of another action
+      borderSampleSize: isBorderCheck ? borderSampleSize : undefined,
+      boardTextures: hasBoard ? boardTextures : undefined, // Questions show a flop of these textures
       createdAt: new Date(),
       stats: null
     };
@@ -52,7 +121,19 @@ export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: C
     setName("");
     setTrainingType("classic");
     setClassicSubtype("all-hands");
+    setBorderDistance(DEFAULT_BORDER_DISTANCE);
+    setBorderSampleSize(DEFAULT_BORDER_SAMPLE_SIZE);
     setSelectedRanges([]);
+    setSpots([]);
+    setSpotHands(DEFAULT_SPOT_HANDS);
+    setSpotSource("folders");
+    setSelectedFolders([]);
+    setSelectedChart("");
+    setQuestionCount(DEFAULT_QUESTION_COUNT);
+    setAnswerMode("action");
+    setTimeLimit("none");
+    setBoardShown(false);
+    setBoardTextures(EMPTY_TEXTURE_FILTER);
     onOpenChange(false);
   };
 
@@ -100,6 +181,47 @@ export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: C
                         <Label htmlFor="border-check">Проверка границ</Label>
                       </div>
                     </RadioGroup>
+                    {classicSubtype === "border-check" && (
+                      <div className="ml-6 grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Расстояние до границы</Label>
+                          <Select value={String(borderDistance)} onValueChange={(value) => setBorderDistance(Number(value))}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {BORDER_DISTANCES.map(distance => (
+                                <SelectItem key={distance} value={String(distance)}>
+                                  {distance} {distance === 1 ? 'клетка' : 'клетки'}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Размер выборки</Label>
+                          <Select value={String(borderSampleSize)} onValueChange={(value) => setBorderSampleSize(Number(value))}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {BORDER_SAMPLE_SIZES.map(size => (
+                                <SelectItem key={size} value={String(size)}>{size} рук</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-2 pt-2">
+                      <Checkbox id="show-board" checked={isBoardShown} onCheckedChange={(checked) => setBoardShown(checked === true)} />
+                      <Label htmlFor="show-board">Показывать флоп</Label>
+                    </div>
+                    {isBoardShown && (
+                      <div className="ml-6">
+                        <BoardTextureSelector value={boardTextures} onChange={setBoardTextures} idPrefix="training-board" />
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -107,19 +229,158 @@ export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: C
                   <RadioGroupItem value="border-repeat" id="border-repeat" />
                   <Label htmlFor="border-repeat" className="font-medium">Повторение границ</Label>
                 </div>
+
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="spaced-repetition" id="spaced-repetition" />
+                  <Label htmlFor="spaced-repetition" className="font-medium">Интервальное повторение</Label>
+                </div>
+                {trainingType === "spaced-repetition" && (
+                  <p className="ml-6 text-xs text-muted-foreground">
+                    Руки повторяются по расписанию SM-2: ошибки и пограничные руки спрашиваются чаще.
+                  </p>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="scenario" id="scenario" />
+                  <Label htmlFor="scenario" className="font-medium">Ситуации за столом</Label>
+                </div>
+                {isScenario && (
+                  <div className="ml-6 space-y-1">
+                    <RadioGroup value={spotHands} onValueChange={(value: SpotHands) => setSpotHands(value)} className="flex flex-wrap gap-4">
+                      {(Object.keys(SPOT_HANDS_LABELS) as SpotHands[]).map(value => (
+                        <div key={value} className="flex items-center space-x-2">
+                          <RadioGroupItem value={value} id={`spot-hands-${value}`} />
+                          <Label htmlFor={`spot-hands-${value}`}>{SPOT_HANDS_LABELS[value]}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <p className="text-xs text-muted-foreground">
+                      {HANDS_PER_SPOT} рук на каждую ситуацию за сессию.
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="random-spots" id="random-spots" />
+                  <Label htmlFor="random-spots" className="font-medium">Случайные споты</Label>
+                </div>
+                {isRandomSpots && (
+                  <div className="ml-6 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Каждый вопрос — случайный ренж и случайная рука, как в реальной игре.
+                    </p>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Вопросов за сессию</Label>
+                      <Select value={String(questionCount)} onValueChange={(value) => setQuestionCount(Number(value))}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {QUESTION_COUNTS.map(count => (
+                            <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
               </div>
             </RadioGroup>
           </div>
 
+          {/* Как отвечать на руку */}
+          {trainingType !== 'border-repeat' && (
+            <div className="space-y-3">
+              <Label>Ответ</Label>
+              <RadioGroup value={answerMode} onValueChange={(value: AnswerMode) => setAnswerMode(value)} className="flex flex-wrap gap-4">
+                {(Object.keys(ANSWER_MODE_LABELS) as AnswerMode[]).map(mode => (
+                  <div key={mode} className="flex items-center space-x-2">
+                    <RadioGroupItem value={mode} id={`answer-mode-${mode}`} />
+                    <Label htmlFor={`answer-mode-${mode}`}>{ANSWER_MODE_LABELS[mode]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                {answerMode === 'action' && 'Верно любое действие руки: самое частое засчитывается полностью, остальные — частично.'}
+                {answerMode === 'rng' && 'Тренажёр бросает число от 1 до 100, нужно сыграть действие для этого броска.'}
+                {answerMode === 'frequency' && 'Введите частоты действий, оценка зависит от расстояния до правильного микса.'}
+              </p>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Время на ответ</Label>
+                <Select value={timeLimit} onValueChange={setTimeLimit}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Без ограничения</SelectItem>
+                    {TIME_LIMITS.map(seconds => (
+                      <SelectItem key={seconds} value={String(seconds)}>{seconds} с</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {timeLimit !== 'none' && (
+                  <p className="text-xs text-muted-foreground">Не успели ответить — ответ засчитывается как ошибка.</p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Выбор ренжей */}
           <div className="space-y-3">
-            <Label>Выберите ренжи для тренировки</Label>
+            <Label>{isScenario ? 'Споты тренировки' : isRandomSpots ? 'Откуда брать споты' : 'Выберите ренжи для тренировки'}</Label>
             {!hasRanges ? (
               <Card className="p-4 text-center">
                 <p className="text-sm text-muted-foreground">
                   Создайте хотя бы 1 ренж чтобы создать тренировку
                 </p>
               </Card>
+            ) : isScenario ? (
+              <SpotBuilder spots={spots} onChange={setSpots} />
+            ) : isRandomSpots ? (
+              <div className="space-y-3">
+                <RadioGroup value={spotSource} onValueChange={(value: "folders" | "chart") => setSpotSource(value)} className="flex gap-4">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="folders" id="spot-source-folders" />
+                    <Label htmlFor="spot-source-folders">Папки</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="chart" id="spot-source-chart" />
+                    <Label htmlFor="spot-source-chart">Чарт</Label>
+                  </div>
+                </RadioGroup>
+                {spotSource === 'folders' ? (
+                  <Card className="p-3 space-y-2 max-h-60 overflow-y-auto">
+                    {folders.filter(folder => folder.ranges.length > 0).map(folder => (
+                      <div key={folder.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`spot-folder-${folder.id}`}
+                          checked={selectedFolders.includes(folder.id)}
+                          onCheckedChange={() => handleFolderToggle(folder.id)}
+                        />
+                        <Label htmlFor={`spot-folder-${folder.id}`} className="text-sm">
+                          {folder.name} ({folder.ranges.length})
+                        </Label>
+                      </div>
+                    ))}
+                  </Card>
+                ) : charts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Не создано ни одного чарта</p>
+                ) : (
+                  <Select value={selectedChart} onValueChange={setSelectedChart}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Выберите чарт" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {charts.map(chart => (
+                        <SelectItem key={chart.id} value={chart.id}>{chart.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Ренжей в тренировке: <span className="font-mono">{trainingRanges.length}</span>
+                </p>
+              </div>
             ) : (
               <div className="space-y-3 max-h-60 overflow-y-auto">
                 {folders.map((folder) => (
@@ -154,7 +415,7 @@ export const CreateTrainingDialog = ({ open, onOpenChange, onCreateTraining }: C
             </Button>
             <Button 
               onClick={handleCreate}
-              disabled={!name.trim() || selectedRanges.length === 0 || !hasRanges}
+              disabled={!name.trim() || trainingRanges.length === 0 || !hasRanges || !hasFlops || !hasSpots}
               variant="poker"
             >
               Создать тренировку
@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useRangeContext } from "@/contexts/RangeContext";
+import { StoredAnswer } from "@/lib/persistence";
+import { formatSeconds, getDecisionTimes } from "@/lib/trainingAnswers";
+
+interface DecisionTimesCardProps {
+  answers: StoredAnswer[];
+}
+
+const SLOWEST_HANDS = 10;
+
+// Average decision time of the training overall, by range and for the slowest hands.
+export const DecisionTimesCard = ({ answers }: DecisionTimesCardProps) => {
+  const { folders } = useRangeContext();
+  const times = useMemo(() => getDecisionTimes(answers), [answers]);
+
+  const getRangeName = (rangeId: string) => {
+    for (const folder of folders) {
+      const range = folder.ranges.find(item => item.id === rangeId);
+      if (range) return `${folder.name} - ${range.name}`;
+    }
+    return 'Удалённый ренж';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Время решения</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          В среднем <span className="font-mono">{formatSeconds(times.average)}</span> на ответ, ответов: {answers.length}
+        </p>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Ренж</TableHead>
+              <TableHead className="text-right">Ответов</TableHead>
+              <TableHead className="text-right">Среднее</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {times.byRange.map(item => (
+              <TableRow key={item.key}>
+                <TableCell>{getRangeName(item.key)}</TableCell>
+                <TableCell className="text-right">{item.count}</TableCell>
+                <TableCell className="text-right font-mono">{formatSeconds(item.average)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Самые долгие руки</TableHead>
+              <TableHead className="text-right">Ответов</TableHead>
+              <TableHead className="text-right">Среднее</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {times.byHand.slice(0, SLOWEST_HANDS).map(item => (
+              <TableRow key={item.key}>
+                <TableCell className="font-mono">{item.key}</TableCell>
+                <TableCell className="text-right">{item.count}</TableCell>
+                <TableCell className="text-right font-mono">{formatSeconds(item.average)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
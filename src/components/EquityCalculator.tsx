@@ -0,0 +1,287 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Play, Square } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRangeContext, SimpleActionButton } from "@/contexts/RangeContext";
+import { PokerMatrix, HeatmapCell } from "./PokerMatrix";
+import { RangeSelect } from "./RangeSelect";
+import { parseCards } from "@/lib/poker";
+import { parseRangeText } from "@/lib/rangeNotation";
+import {
+  EquityMode,
+  EquityRequest,
+  EXHAUSTIVE_LIMIT,
+  MONTE_CARLO_ITERATIONS,
+  WeightedCombo,
+  countExhaustiveRuns,
+  getHandWeightedCombos,
+  getRangeWeightedCombos,
+  validateEquityRequest,
+} from "@/lib/equity";
+import { useEquityWorker } from "@/hooks/use-equity-worker";
+import { useToast } from "@/hooks/use-toast";
+
+interface EquityCalculatorProps {
+  isMobileMode?: boolean;
+}
+
+type PlayerSource = 'text' | 'range';
+
+interface PlayerInput {
+  source: PlayerSource;
+  text: string; // Exact cards ("AhKd") or range notation ("QQ+, AKs")
+  rangeId: string;
+  actionId: string; // ALL_ACTIONS or the id of a simple action
+}
+
+const ALL_ACTIONS = 'all';
+
+const PLAYER_LABELS = ['Игрок 1', 'Игрок 2'];
+
+const createPlayerInput = (text: string): PlayerInput => ({ source: 'text', text, rangeId: "", actionId: ALL_ACTIONS });
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const formatNumber = (value: number) => value.toLocaleString('ru-RU');
+
+export const EquityCalculator = ({ isMobileMode = false }: EquityCalculatorProps) => {
+  const { toast } = useToast();
+  const { folders, actionButtons } = useRangeContext();
+  const [players, setPlayers] = useState<PlayerInput[]>([createPlayerInput("AhKh"), createPlayerInput("QQ+, AKs, AKo")]);
+  const [boardText, setBoardText] = useState("");
+  const [deadText, setDeadText] = useState("");
+  const [mode, setMode] = useState<EquityMode>('monte-carlo');
+  const [iterations, setIterations] = useState(MONTE_CARLO_ITERATIONS[1]);
+  const [heatmapPlayer, setHeatmapPlayer] = useState(0);
+  const { run, cancel, result, isRunning, error } = useEquityWorker();
+
+  const simpleActionButtons = actionButtons.filter((button): button is SimpleActionButton => button.type === 'simple');
+  const allRanges = useMemo(() => folders.flatMap(folder => folder.ranges), [folders]);
+
+  const updatePlayer = (index: number, patch: Partial<PlayerInput>) =>
+    setPlayers(prev => prev.map((player, i) => (i === index ? { ...player, ...patch } : player)));
+
+  // Combos of a player, or an error message for input that cannot be used
+  const getPlayerCombos = (player: PlayerInput, label: string): WeightedCombo[] | string => {
+    if (player.source === 'range') {
+      const range = allRanges.find(item => item.id === player.rangeId);
+      if (!range) return `${label}: выберите ренж.`;
+      return getRangeWeightedCombos(range, actionButtons, player.actionId === ALL_ACTIONS ? undefined : player.actionId);
+    }
+    const cards = parseCards(player.text);
+    if (cards && cards.length === 2) return [{ combo: cards.join(''), weight: 1 }];
+    const { weights, errors } = parseRangeText(player.text);
+    if (errors.length > 0) return `${label}: не удалось разобрать ${errors.join(', ')}.`;
+    if (Object.keys(weights).length === 0) return `${label}: укажите руку или ренж.`;
+    return getHandWeightedCombos(weights);
+  };
+
+  const handleStart = () => {
+    const combos = players.map((player, index) => getPlayerCombos(player, PLAYER_LABELS[index]));
+    const board = parseCards(boardText);
+    const dead = parseCards(deadText);
+    const inputError = combos.find((item): item is string => typeof item === 'string')
+      || (!board && 'Борд: не удалось разобрать карты.')
+      || (!dead && 'Мёртвые карты: не удалось разобрать карты.');
+    if (inputError) {
+      toast({ title: "Проверьте ввод", description: inputError, variant: "destructive" });
+      return;
+    }
+
+    const request: EquityRequest = {
+      players: [combos[0] as WeightedCombo[], combos[1] as WeightedCombo[]],
+      board,
+      dead,
+      mode,
+      iterations,
+    };
+    const requestError = validateEquityRequest(request);
+    if (requestError) {
+      toast({ title: "Расчёт невозможен", description: requestError, variant: "destructive" });
+      return;
+    }
+    if (mode === 'exhaustive' && countExhaustiveRuns(request) > EXHAUSTIVE_LIMIT) {
+      request.mode = 'monte-carlo';
+      toast({ title: "Слишком много вариантов", description: "Полный перебор занял бы слишком долго, расчёт выполнен методом Монте-Карло." });
+    }
+    run(request);
+  };
+
+  const heatmap = useMemo(() => {
+    if (!result) return undefined;
+    const cells: Record<string, HeatmapCell> = {};
+    Object.entries(result.players[heatmapPlayer].hands).forEach(([hand, { equity }]) => {
+      cells[hand] = { value: equity, label: `${Math.round(equity * 100)}%` };
+    });
+    return cells;
+  }, [result, heatmapPlayer]);
+
+  const renderPlayerInput = (player: PlayerInput, index: number) => (
+    <div key={index} className="space-y-2">
+      <Label>{PLAYER_LABELS[index]}</Label>
+      <Tabs value={player.source} onValueChange={(value: PlayerSource) => updatePlayer(index, { source: value })}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="text">Рука / нотация</TabsTrigger>
+          <TabsTrigger value="range">Ренж</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      {player.source === 'text' ? (
+        <Input
+          value={player.text}
+          onChange={(e) => updatePlayer(index, { text: e.target.value })}
+          placeholder="AhKh или QQ+, AKs"
+        />
+      ) : (
+        <>
+          <RangeSelect value={player.rangeId} onChange={(rangeId) => updatePlayer(index, { rangeId })} />
+          <Select value={player.actionId} onValueChange={(actionId) => updatePlayer(index, { actionId })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTIONS}>Все действия, кроме фолда</SelectItem>
+              {simpleActionButtons.map(button => (
+                <SelectItem key={button.id} value={button.id}>{button.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={cn(
+      "bg-background",
+      isMobileMode ? "flex flex-col" : "flex h-screen"
+    )}>
+      {/* Sidebar */}
+      <div className={cn(
+        "bg-card p-4 space-y-4",
+        isMobileMode ? "order-2" : "w-80 border-r overflow-y-auto"
+      )}>
+        <h2 className="text-lg font-semibold">Эквити</h2>
+
+        {players.map(renderPlayerInput)}
+
+        <div className="space-y-2">
+          <Label htmlFor="equity-board">Борд</Label>
+          <Input id="equity-board" value={boardText} onChange={(e) => setBoardText(e.target.value)} placeholder="Ks 7d 2c" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="equity-dead">Мёртвые карты</Label>
+          <Input id="equity-dead" value={deadText} onChange={(e) => setDeadText(e.target.value)} placeholder="Необязательно" />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Метод</Label>
+          <RadioGroup value={mode} onValueChange={(value: EquityMode) => setMode(value)} className="flex gap-4">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="monte-carlo" id="equity-monte-carlo" />
+              <Label htmlFor="equity-monte-carlo">Монте-Карло</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="exhaustive" id="equity-exhaustive" />
+              <Label htmlFor="equity-exhaustive">Полный перебор</Label>
+            </div>
+          </RadioGroup>
+        </div>
+        {mode === 'monte-carlo' && (
+          <div className="space-y-2">
+            <Label>Количество раздач</Label>
+            <Select value={iterations.toString()} onValueChange={(value) => setIterations(Number(value))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {MONTE_CARLO_ITERATIONS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>{formatNumber(count)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isRunning ? (
+          <Button className="w-full" variant="outline" onClick={cancel}>
+            <Square className="h-4 w-4 mr-2" />
+            Остановить
+          </Button>
+        ) : (
+          <Button className="w-full" variant="poker" onClick={handleStart}>
+            <Play className="h-4 w-4 mr-2" />
+            Рассчитать
+          </Button>
+        )}
+      </div>
+
+      {/* Main Content */}
+      <div className={cn(
+        "p-6",
+        isMobileMode ? "order-1 flex-1" : "flex-1 overflow-y-auto"
+      )}>
+        <div className={cn(
+          "mx-auto space-y-6",
+          isMobileMode ? "max-w-full" : "max-w-4xl"
+        )}>
+          {error && (
+            <Card className="p-4 text-sm text-destructive">{error}</Card>
+          )}
+
+          {(isRunning || result) && (
+            <div className="space-y-2">
+              <Progress value={(result?.progress || 0) * 100} />
+              <p className="text-xs text-muted-foreground">
+                {isRunning ? "Идёт расчёт" : "Расчёт завершён"} • Бордов: {formatNumber(result?.runs || 0)}
+              </p>
+            </div>
+          )}
+
+          {result ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {result.players.map((player, index) => (
+                  <Card key={index} className="p-4 text-center">
+                    <div className="text-sm text-muted-foreground">{PLAYER_LABELS[index]}</div>
+                    <div className="text-3xl font-bold text-primary">{formatPercent(player.equity)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Победа {formatPercent(player.win)} • Ничья {formatPercent(player.tie)}
+                    </div>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-lg font-semibold">Эквити по рукам</h3>
+                  <Tabs value={heatmapPlayer.toString()} onValueChange={(value) => setHeatmapPlayer(Number(value))}>
+                    <TabsList>
+                      {PLAYER_LABELS.map((label, index) => (
+                        <TabsTrigger key={index} value={index.toString()}>{label}</TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                </div>
+                <PokerMatrix
+                  selectedHands={{}}
+                  onHandSelect={() => {}}
+                  activeAction=""
+                  actionButtons={actionButtons}
+                  heatmap={heatmap}
+                  readOnly
+                />
+              </div>
+            </>
+          ) : !isRunning && (
+            <Card className="p-6 text-center text-muted-foreground">
+              Укажите руки или ренжи игроков и запустите расчёт.
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
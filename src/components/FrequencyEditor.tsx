@@ -0,0 +1,51 @@
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { SimpleActionButton } from "@/contexts/RangeContext";
+import { FOLD_COLOR } from "@/lib/actionColors";
+
+interface FrequencyEditorProps {
+  actions: SimpleActionButton[];
+  value: Record<string, number>; // action id -> percent
+  onChange: (value: Record<string, number>) => void;
+}
+
+// Sliders for a frequency vector; whatever is left up to 100% is fold.
+export const FrequencyEditor = ({ actions, value, onChange }: FrequencyEditorProps) => {
+  const total = actions.reduce((sum, action) => sum + (value[action.id] || 0), 0);
+  const foldPercent = Math.max(0, 100 - total);
+
+  const handleChange = (actionId: string, percent: number) => {
+    const others = total - (value[actionId] || 0);
+    onChange({ ...value, [actionId]: Math.min(percent, 100 - others) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {actions.map(action => (
+        <div key={action.id} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <Label className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: action.color }} />
+              {action.name}
+            </Label>
+            <span className="font-mono">{value[action.id] || 0}%</span>
+          </div>
+          <Slider
+            value={[value[action.id] || 0]}
+            onValueChange={(v) => handleChange(action.id, v[0])}
+            min={0}
+            max={100}
+            step={5}
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: FOLD_COLOR }} />
+          Fold
+        </span>
+        <span className="font-mono">{foldPercent}%</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import { useState, useEffect, useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { useRangeContext, Range, SimpleActionButton } from "@/contexts/RangeContext";
+import { PokerMatrix, HeatmapCell } from "./PokerMatrix";
+import { BoardTextureSelector } from "./BoardTextureSelector";
+import { getComboHand, parseCards } from "@/lib/poker";
+import { getRangeWeightedCombos } from "@/lib/equity";
+import {
+  DRAW_CATEGORIES,
+  HAND_STRENGTH_LABELS,
+  HandStrengthCategory,
+  MADE_HAND_CATEGORIES,
+  getFlopSetBreakdown,
+  getHandStrengthBreakdown,
+} from "@/lib/handStrength";
+import { BoardTextureFilter, EMPTY_TEXTURE_FILTER, filterFlops, getRepresentativeFlops } from "@/lib/boardTextures";
+
+interface HandStrengthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  range: Range | null;
+}
+
+type BoardSource = 'board' | 'textures';
+
+interface CategoryRow {
+  weight: number; // Weighted combos, averaged over the flops for textures
+  share: number; // 0..1 of the range
+}
+
+const ALL_ACTIONS = 'all';
+
+// Every flop of the subset is classified on the main thread, so the subset stays small
+const FLOP_SUBSET_SIZES = [25, 50, 100];
+
+const formatCombos = (combos: number) => (Math.round(combos * 10) / 10).toString();
+
+export const HandStrengthDialog = ({ open, onOpenChange, range }: HandStrengthDialogProps) => {
+  const { actionButtons } = useRangeContext();
+  const [boardText, setBoardText] = useState("");
+  const [actionId, setActionId] = useState(ALL_ACTIONS);
+  const [selectedCategory, setSelectedCategory] = useState<HandStrengthCategory | null>(null);
+  const [boardSource, setBoardSource] = useState<BoardSource>('board');
+  const [textureFilter, setTextureFilter] = useState<BoardTextureFilter>(EMPTY_TEXTURE_FILTER);
+  const [flopCount, setFlopCount] = useState(FLOP_SUBSET_SIZES[1]);
+
+  const simpleActionButtons = actionButtons.filter((button): button is SimpleActionButton => button.type === 'simple');
+
+  useEffect(() => {
+    if (open) {
+      setActionId(ALL_ACTIONS);
+      setSelectedCategory(null);
+    }
+  }, [open]);
+
+  const board = useMemo(() => parseCards(boardText), [boardText]);
+  const boardError = !board
+    ? 'Не удалось разобрать карты.'
+    : board.length > 0 && (board.length < 3 || board.length > 5)
+      ? 'На борде должно быть от 3 до 5 карт.'
+      : new Set(board).size !== board.length
+        ? 'Карты борда повторяются.'
+        : null;
+  const isBoardReady = !boardError && board.length >= 3;
+
+  const rangeCombos = useMemo(
+    () => (range ? getRangeWeightedCombos(range, actionButtons, actionId === ALL_ACTIONS ? undefined : actionId) : []),
+    [range, actionButtons, actionId]
+  );
+  const flops = useMemo(() => getRepresentativeFlops(filterFlops(textureFilter), flopCount), [textureFilter, flopCount]);
+
+  const breakdown = useMemo(
+    () => (boardSource === 'board' && isBoardReady ? getHandStrengthBreakdown(rangeCombos, board) : null),
+    [boardSource, isBoardReady, rangeCombos, board]
+  );
+  const flopSetBreakdown = useMemo(
+    () => (boardSource === 'textures' && flops.length > 0 ? getFlopSetBreakdown(rangeCombos, flops) : null),
+    [boardSource, flops, rangeCombos]
+  );
+
+  const rows = useMemo(() => {
+    const result: Partial<Record<HandStrengthCategory, CategoryRow>> = {};
+    if (breakdown) {
+      Object.entries(breakdown.categories).forEach(([category, { weight, combos }]) => {
+        if (combos.length > 0) result[category] = { weight, share: breakdown.total > 0 ? weight / breakdown.total : 0 };
+      });
+    }
+    if (flopSetBreakdown) {
+      Object.entries(flopSetBreakdown.categories).forEach(([category, { share }]) => {
+        if (share > 0) result[category] = { weight: share * flopSetBreakdown.total, share };
+      });
+    }
+    return result;
+  }, [breakdown, flopSetBreakdown]);
+  const total = breakdown?.total ?? flopSetBreakdown?.total ?? null;
+
+  const selectedCombos = useMemo(
+    () => (breakdown && selectedCategory ? breakdown.categories[selectedCategory].combos : []),
+    [breakdown, selectedCategory]
+  );
+  // A hand is often only partly in a category: on a board the matrix shows its combos in it
+  // out of its combos left by the board, over a set of flops the average share of them
+  const heatmap = useMemo(() => {
+    if (!selectedCategory) return undefined;
+    const cells: Record<string, HeatmapCell> = {};
+    if (breakdown) {
+      // Every combo has exactly one made hand category, so those count the live combos
+      const countByHand = (combos: string[], counts: Record<string, number> = {}) => {
+        combos.forEach(combo => {
+          const hand = getComboHand(combo);
+          counts[hand] = (counts[hand] || 0) + 1;
+        });
+        return counts;
+      };
+      const live: Record<string, number> = {};
+      MADE_HAND_CATEGORIES.forEach(category => countByHand(breakdown.categories[category].combos, live));
+      Object.entries(countByHand(selectedCombos)).forEach(([hand, count]) => {
+        cells[hand] = { value: count / live[hand], label: `${count}/${live[hand]}` };
+      });
+      return cells;
+    }
+    if (!flopSetBreakdown) return undefined;
+    Object.entries(flopSetBreakdown.categories[selectedCategory].hands).forEach(([hand, share]) => {
+      cells[hand] = { value: share, label: `${Math.round(share * 100)}%` };
+    });
+    return cells;
+  }, [breakdown, flopSetBreakdown, selectedCategory, selectedCombos]);
+
+  if (!range) return null;
+
+  const renderRows = (categories: readonly HandStrengthCategory[]) =>
+    categories
+      .filter(category => rows[category])
+      .map(category => {
+        const { weight, share } = rows[category];
+        return (
+          <TableRow
+            key={category}
+            className={cn("cursor-pointer", category === selectedCategory && "bg-accent")}
+            onClick={() => setSelectedCategory(prev => (prev === category ? null : category))}
+          >
+            <TableCell>{HAND_STRENGTH_LABELS[category]}</TableCell>
+            <TableCell className="text-right font-mono">{formatCombos(weight)}</TableCell>
+            <TableCell className="text-right font-mono">{(share * 100).toFixed(1)}%</TableCell>
+          </TableRow>
+        );
+      });
+
+  const renderSection = (title: string, categories: readonly HandStrengthCategory[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead className="text-right">Комбо</TableHead>
+          <TableHead className="text-right">%</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>{renderRows(categories)}</TableBody>
+    </Table>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Сила рук ренжа «{range.name}» на борде</DialogTitle>
+          <DialogDescription>
+            Нажмите на категорию, чтобы увидеть на матрице, сколько комбо каждой руки в неё попадает.
+            По текстурам доли усредняются по представительной выборке флопов.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Tabs
+              value={boardSource}
+              onValueChange={(value: BoardSource) => {
+                setBoardSource(value);
+                setSelectedCategory(null);
+              }}
+            >
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="board">Конкретный борд</TabsTrigger>
+                <TabsTrigger value="textures">Текстуры флопа</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {boardSource === 'board' ? (
+              <>
+                <Input
+                  value={boardText}
+                  onChange={(e) => setBoardText(e.target.value)}
+                  placeholder="Ks 7h 2h"
+                  aria-label="Борд"
+                />
+                {boardError && boardText.trim() && <p className="text-xs text-destructive">{boardError}</p>}
+              </>
+            ) : (
+              <>
+                <BoardTextureSelector value={textureFilter} onChange={setTextureFilter} idPrefix="hand-strength" />
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Флопов в выборке</Label>
+                  <Select value={flopCount.toString()} onValueChange={(value) => setFlopCount(Number(value))}>
+                    <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {FLOP_SUBSET_SIZES.map(size => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Действие</Label>
+            <Select value={actionId} onValueChange={setActionId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>Все действия, кроме фолда</SelectItem>
+                {simpleActionButtons.map(button => (
+                  <SelectItem key={button.id} value={button.id}>{button.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_320px]">
+          <div className="space-y-3 min-w-0">
+            <PokerMatrix
+              selectedHands={range.hands}
+              combos={range.combos}
+              mixes={range.mixes}
+              onHandSelect={() => {}}
+              activeAction=""
+              actionButtons={actionButtons}
+              heatmap={heatmap}
+              readOnly
+            />
+            {selectedCategory && breakdown && (
+              <div className="pt-6 space-y-1">
+                <p className="text-sm font-medium">{HAND_STRENGTH_LABELS[selectedCategory]}</p>
+                <p className="text-xs font-mono text-muted-foreground break-words">{selectedCombos.join(' ')}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            {total !== null ? (
+              <>
+                <p className="text-sm">
+                  Комбинаций в ренже: <span className="font-mono">{formatCombos(total)}</span>
+                  {flopSetBreakdown && <> • флопов: <span className="font-mono">{flops.length}</span></>}
+                </p>
+                {renderSection("Готовые руки", MADE_HAND_CATEGORIES)}
+                {renderSection("Дро", [...DRAW_CATEGORIES, 'air'])}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {boardSource === 'board' ? "Введите флоп, тёрн или ривер." : "Нет флопов с такими текстурами."}
+              </p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,112 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HeatmapCell, PokerMatrix } from "./PokerMatrix";
+import { RangeSelect } from "./RangeSelect";
+import { useRangeContext } from "@/contexts/RangeContext";
+import { getHandLeaks, getMostCommonWrongAction, getTopLeaks, loadAllAnswers } from "@/lib/trainingAnswers";
+
+interface LeakStatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TOP_LEAKS = 10;
+
+// Error rate of every hand of a range over all the answers given in trainings.
+export const LeakStatsDialog = ({ open, onOpenChange }: LeakStatsDialogProps) => {
+  const { folders, actionButtons } = useRangeContext();
+  const [rangeId, setRangeId] = useState("");
+  const range = folders.flatMap(folder => folder.ranges).find(item => item.id === rangeId);
+
+  // Answers are read again every time the dialog opens
+  const answers = useMemo(() => (open ? loadAllAnswers() : []), [open]);
+  const rangeAnswers = useMemo(() => answers.filter(answer => answer.rangeId === rangeId), [answers, rangeId]);
+  const leaks = useMemo(() => getHandLeaks(rangeAnswers), [rangeAnswers]);
+  const topLeaks = getTopLeaks(leaks, TOP_LEAKS);
+
+  const overlay = useMemo(() => Object.fromEntries(
+    Object.values(leaks).map(leak => [leak.hand, {
+      value: 1 - leak.errorRate,
+      label: `${Math.round(leak.errorRate * 100)}%`,
+    }])
+  ) as Record<string, HeatmapCell>, [leaks]);
+
+  const getActionName = (actionId: string) => {
+    if (actionId === 'fold') return 'Fold';
+    if (actionId === 'timeout') return 'Время вышло';
+    if (actionId === 'mix') return 'Неверный микс';
+    return actionButtons.find(button => button.id === actionId)?.name || actionId;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Утечки</DialogTitle>
+          <DialogDescription>
+            Доля ошибок по каждой руке ренжа за все тренировки.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1 max-w-sm">
+            <Label>Ренж</Label>
+            <RangeSelect value={rangeId} onChange={setRangeId} />
+          </div>
+
+          {rangeId && rangeAnswers.length === 0 && (
+            <p className="text-sm text-muted-foreground">По этому ренжу ещё нет ответов.</p>
+          )}
+
+          {rangeAnswers.length > 0 && (
+            <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
+              <div className="overflow-x-auto">
+                <PokerMatrix
+                  selectedHands={range?.hands || {}}
+                  combos={range?.combos}
+                  mixes={range?.mixes}
+                  onHandSelect={() => {}}
+                  activeAction=""
+                  actionButtons={actionButtons}
+                  readOnly
+                  overlay={overlay}
+                />
+                <p className="text-xs text-muted-foreground mt-2">Ответов: {rangeAnswers.length}</p>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Главные утечки</h3>
+                {topLeaks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Ошибок нет.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Рука</TableHead>
+                        <TableHead className="text-right">Ошибки</TableHead>
+                        <TableHead>Чаще всего</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {topLeaks.map(leak => (
+                        <TableRow key={leak.hand}>
+                          <TableCell className="font-mono">{leak.hand}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {leak.wrong}/{leak.total}
+                          </TableCell>
+                          <TableCell>{getActionName(getMostCommonWrongAction(leak) || '')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
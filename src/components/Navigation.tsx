@@ -3,8 +3,8 @@ import { cn } from "@/lib/utils";
 import React from "react";
 
 interface NavigationProps {
-  activeSection: 'editor' | 'training' | 'chart'; // Updated type
-  onSectionChange: (section: 'editor' | 'training' | 'chart') => void; // Updated type
+  activeSection: 'editor' | 'training' | 'chart' | 'equity'; // Updated type
+  onSectionChange: (section: 'editor' | 'training' | 'chart' | 'equity') => void; // Updated type
   isMobile?: boolean;
   mobileActions?: React.ReactNode;
 }
@@ -13,7 +13,8 @@ export const Navigation = ({ activeSection, onSectionChange, isMobile = false, m
   const sections = [
     { id: 'editor' as const, label: 'Редактор' },
     { id: 'training' as const, label: 'Тренировка' },
-    { id: 'chart' as const, label: 'Чарт' } // Updated id and label
+    { id: 'chart' as const, label: 'Чарт' }, // Updated id and label
+    { id: 'equity' as const, label: 'Эквити' }
   ];
 
   const content = (
@@ -1,13 +1,51 @@
 import { cn } from "@/lib/utils";
+import { parseCards } from "@/lib/poker";
+import { useCardSettings } from "@/hooks/use-card-settings";
+import { CardDeck, CardStyle } from "@/lib/persistence";
 
 interface PokerCardProps {
-  hand: string;
+  hand?: string; // A hand class ("AKs") or concrete cards ("Ah Kd")
+  cards?: string[]; // Concrete cards such as "Ah", shown instead of the hand
   className?: string;
 }
 
-export const PokerCard = ({ hand, className }: PokerCardProps) => {
+type SuitName = 'spades' | 'hearts' | 'diamonds' | 'clubs';
+type SuitColor = 'black' | 'red' | 'blue' | 'green';
+
+const SUIT_NAMES: Record<string, SuitName> = { s: 'spades', h: 'hearts', d: 'diamonds', c: 'clubs' };
+
+const SUIT_SYMBOLS: Record<SuitName, string> = { spades: '♠', hearts: '♥', diamonds: '♦', clubs: '♣' };
+
+const DECK_COLORS: Record<CardDeck, Record<SuitName, SuitColor>> = {
+  'two-color': { spades: 'black', hearts: 'red', diamonds: 'red', clubs: 'black' },
+  'four-color': { spades: 'black', hearts: 'red', diamonds: 'blue', clubs: 'green' },
+};
+
+const FILLED_CLASSES: Record<SuitColor, string> = {
+  black: 'bg-gray-500 text-white',
+  red: 'bg-red-600 text-white',
+  blue: 'bg-blue-600 text-white',
+  green: 'bg-green-600 text-white',
+};
+
+const TEXT_CLASSES: Record<SuitColor, string> = {
+  black: 'text-gray-900',
+  red: 'text-red-600',
+  blue: 'text-blue-600',
+  green: 'text-green-600',
+};
+
+const STYLE_CLASSES: Record<CardStyle, string> = {
+  filled: 'rounded-lg border-2 border-gray-300 shadow-lg',
+  classic: 'rounded-lg border-2 border-gray-300 shadow-lg bg-white',
+  minimal: 'rounded-md bg-gray-100',
+};
+
+export const PokerCard = ({ hand, cards: concreteCards, className }: PokerCardProps) => {
+  const { settings } = useCardSettings();
+
   // Parse hand like "AA", "AKs", "72o" etc.
-  const getCardInfo = (hand: string) => {
+  const getCardInfo = (hand: string): { rank: string; suit: SuitName }[] => {
     if (hand.length === 2) {
       // Pocket pairs like AA, KK, etc.
       return [
@@ -18,44 +56,28 @@ export const PokerCard = ({ hand, className }: PokerCardProps) => {
       // Suited or offsuit like AKs, AKo
       const suited = hand[2] === 's';
       return [
-        { rank: hand[0], suit: suited ? 'spades' : 'spades' },
+        { rank: hand[0], suit: 'spades' },
         { rank: hand[1], suit: suited ? 'spades' : 'hearts' }
       ];
     }
+    // Concrete cards like "AhKd" or "Ah Kd"
+    const parsed = parseCards(hand);
+    if (parsed) {
+      return parsed.map(card => ({ rank: card[0], suit: SUIT_NAMES[card[1]] }));
+    }
     return [
       { rank: 'A', suit: 'spades' },
       { rank: 'A', suit: 'hearts' }
     ];
   };
 
-  const cards = getCardInfo(hand);
-
-  const getSuitStyles = (suit: string) => {
-    switch (suit) {
-      case 'hearts':
-        return 'bg-red-600 text-white';
-      case 'diamonds':
-        return 'bg-blue-600 text-white';
-      case 'clubs':
-        return 'bg-green-600 text-white';
-      case 'spades':
-      default:
-        return 'bg-gray-500 text-white';
-    }
-  };
+  const cards = concreteCards
+    ? concreteCards.map(card => ({ rank: card[0], suit: SUIT_NAMES[card[1]] }))
+    : getCardInfo(hand || '');
 
-  const getSuitSymbol = (suit: string) => {
-    switch (suit) {
-      case 'hearts':
-        return '♥';
-      case 'diamonds':
-        return '♦';
-      case 'clubs':
-        return '♣';
-      case 'spades':
-      default:
-        return '♠';
-    }
+  const getSuitStyles = (suit: SuitName) => {
+    const color = DECK_COLORS[settings.deck][suit];
+    return cn(STYLE_CLASSES[settings.style], settings.style === 'filled' ? FILLED_CLASSES[color] : TEXT_CLASSES[color]);
   };
 
   const formatRank = (rank: string) => {
@@ -69,18 +91,25 @@ export const PokerCard = ({ hand, className }: PokerCardProps) => {
         <div
           key={index}
           className={cn(
-            "rounded-lg border-2 border-gray-300 shadow-lg w-12 h-16 sm:w-16 sm:h-20 flex items-center justify-center relative",
+            "w-12 h-16 sm:w-16 sm:h-20 flex items-center justify-center relative",
             getSuitStyles(card.suit)
           )}
         >
           {/* Suit symbol in top-left corner */}
-          <div className="absolute top-1 left-1 text-white text-sm sm:text-lg font-bold opacity-90">
-            {getSuitSymbol(card.suit)}
+          <div className="absolute top-1 left-1 text-sm sm:text-lg font-bold opacity-90">
+            {SUIT_SYMBOLS[card.suit]}
           </div>
-          
+
           <div className="text-2xl sm:text-4xl font-bold">
             {formatRank(card.rank)}
           </div>
+
+          {/* The classic face repeats the suit in the opposite corner */}
+          {settings.style === 'classic' && (
+            <div className="absolute bottom-1 right-1 text-sm sm:text-lg font-bold opacity-90 rotate-180">
+              {SUIT_SYMBOLS[card.suit]}
+            </div>
+          )}
         </div>
       ))}
     </div>
@@ -3,29 +3,18 @@ import { cn } from "@/lib/utils";
 import React, { useState, useEffect, useRef } from 'react';
 import { useIsMobile } from "@/hooks/use-mobile";
 import { ActionButton } from "@/contexts/RangeContext";
+import { HAND_GRID } from "@/lib/poker";
+import { getActionColor, getActionSegments, getSegmentsBackground } from "@/lib/actionColors";
+import { hasComboOverrides } from "@/lib/rangeCombos";
+import { getHandStrategy } from "@/lib/rangeStrategy";
+import { CELL_MISTAKE_CLASSES, CELL_MISTAKE_LABELS, CellMistake } from "@/lib/matrixScoring";
 
 // Poker hand matrix data
-const RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'];
-
-const HANDS = [];
-for (let i = 0; i < RANKS.length; i++) {
-  const row = [];
-  for (let j = 0; j < RANKS.length; j++) {
-    const rank1 = RANKS[i];
-    const rank2 = RANKS[j];
-
-    if (i === j) {
-      // Diagonal: Pairs
-      row.push(`${rank1}${rank1}`);
-    } else if (i < j) {
-      // Upper triangle: Suited hands (e.g., AKs, AQs)
-      row.push(`${rank1}${rank2}s`);
-    } else {
-      // Lower triangle: Offsuit hands (e.g., AKo, AQo)
-      row.push(`${rank2}${rank1}o`); // Note: rank2 then rank1 for offsuit to maintain standard naming (e.g., AKo not KAo)
-    }
-  }
-  HANDS.push(row);
+const HANDS = HAND_GRID;
+
+export interface HeatmapCell {
+  value: number; // 0..1, red to green
+  label?: string; // Shown under the hand, e.g. "64%"
 }
 
 interface PokerMatrixProps {
@@ -35,25 +24,26 @@ interface PokerMatrixProps {
   actionButtons: ActionButton[];
   readOnly?: boolean;
   isBackgroundMode?: boolean; // New prop
+  combos?: Record<string, string>; // Per-combo overrides of the range, see rangeCombos
+  mixes?: Record<string, Record<string, number>>; // Per-hand frequencies of the range, see rangeStrategy
+  onHandClick?: (hand: string) => void; // When set, a click opens the hand instead of painting
+  isHandSelected?: (hand: string) => boolean; // Decides whether a drag starting on the hand deselects
+  onStrokeStart?: (mode: 'select' | 'deselect') => void; // Called before the first cell of a drag stroke
+  onStrokeEnd?: () => void; // Called once the drag stroke is released
+  highlightedHands?: Set<string>; // Cells outlined on top of their colors, e.g. the differences between two ranges
+  heatmap?: Record<string, HeatmapCell>; // Replaces the action colors; hands without a value are muted
+  mistakes?: Record<string, CellMistake>; // Cells outlined by the kind of mistake, see matrixScoring
+  overlay?: Record<string, HeatmapCell>; // Like the heatmap, but outlined over the action colors
 }
 
-const getActionColor = (actionId: string, buttons: ActionButton[]): string => {
-  if (actionId === 'fold') {
-    return '#6b7280'; // Muted gray for Fold
-  }
-  const button = buttons.find(b => b.id === actionId);
-  if (button && button.type === 'simple') {
-    return button.color;
-  }
-  // Fallback for weighted buttons or if not found (should not happen in weighted context)
-  return '#ffffff'; 
-};
-
-export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionButtons, readOnly = false, isBackgroundMode = false }: PokerMatrixProps) => {
+export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionButtons, readOnly = false, isBackgroundMode = false, combos, mixes, onHandClick, isHandSelected, onStrokeStart, onStrokeEnd, highlightedHands, heatmap, mistakes, overlay }: PokerMatrixProps) => {
   const isMobile = useIsMobile();
   const [isDragging, setIsDragging] = useState(false);
   const [dragMode, setDragMode] = useState<'select' | 'deselect' | null>(null);
   const lastHandEnteredRef = useRef<string | null>(null);
+  const isStrokeActiveRef = useRef(false);
+  const onStrokeEndRef = useRef(onStrokeEnd);
+  onStrokeEndRef.current = onStrokeEnd;
   // Initialize zoomLevel to 0.85 (15% reduction) for desktop, 1 for mobile
   const [zoomLevel, setZoomLevel] = useState<number>(isMobile ? 1 : 0.85);
 
@@ -69,6 +59,11 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
     setIsDragging(false);
     setDragMode(null);
     lastHandEnteredRef.current = null;
+    // The window listener fires on every mouseup, only finish strokes that were started here
+    if (isStrokeActiveRef.current) {
+      isStrokeActiveRef.current = false;
+      onStrokeEndRef.current?.();
+    }
   };
 
   useEffect(() => {
@@ -85,13 +80,19 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
 
   const handleMouseDown = (hand: string) => {
     if (readOnly || isBackgroundMode) return; // Prevent interaction in background mode
+    if (onHandClick) {
+      onHandClick(hand);
+      return;
+    }
     setIsDragging(true);
     lastHandEnteredRef.current = hand;
 
-    const currentHandAction = selectedHands[hand];
-    const mode = currentHandAction === activeAction ? 'deselect' : 'select';
+    const isSelected = isHandSelected ? isHandSelected(hand) : selectedHands[hand] === activeAction;
+    const mode = isSelected ? 'deselect' : 'select';
     
     setDragMode(mode);
+    isStrokeActiveRef.current = true;
+    onStrokeStart?.(mode);
     onHandSelect(hand, mode);
   };
 
@@ -117,7 +118,51 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
     }
   };
 
+  const rangeView = { hands: selectedHands, combos, mixes };
+
+  // Cells whose combos do not all take the same single action
+  const isMixedCell = (hand: string) => !!mixes?.[hand] || (!!combos && hasComboOverrides(rangeView, hand));
+
+  // Mixed cell actions with fold last, so bars line up across cells
+  const getMixedCellStrategy = (hand: string) =>
+    Object.entries(getHandStrategy(rangeView, hand))
+      .filter(([, fraction]) => fraction > 0)
+      .sort(([a], [b]) => Number(a === 'fold') - Number(b === 'fold'));
+
+  const getHandTitle = (hand: string) => {
+    if (heatmap) return heatmap[hand]?.label && `${hand}: ${heatmap[hand].label}`;
+    if (mistakes?.[hand]) return `${hand}: ${CELL_MISTAKE_LABELS[mistakes[hand]]}`;
+    if (overlay?.[hand]?.label) return `${hand}: ${overlay[hand].label}`;
+    if (!isMixedCell(hand)) return undefined;
+    return getMixedCellStrategy(hand)
+      .map(([actionId, fraction]) => {
+        const name = actionId === 'fold' ? 'Fold' : actionButtons.find(b => b.id === actionId)?.name || actionId;
+        return `${name} ${Math.round(fraction * 100)}%`;
+      })
+      .join(' / ');
+  };
+
+  const getHeatColor = (cell: HeatmapCell) => `hsl(${Math.round(Math.max(0, Math.min(1, cell.value)) * 120)}, 70%, 40%)`;
+
   const getHandStyle = (hand: string) => {
+    if (heatmap) {
+      const cell = heatmap[hand];
+      if (!cell) return {};
+      return { backgroundColor: getHeatColor(cell), color: 'white', border: 'none' };
+    }
+
+    if (isMixedCell(hand)) {
+      // One bar per action, sized by its frequency in the hand
+      const segments = getMixedCellStrategy(hand).flatMap(([actionId, fraction]) =>
+        getActionSegments(actionId, actionButtons, fraction)
+      );
+      return {
+        background: getSegmentsBackground(segments),
+        color: 'white',
+        border: 'none'
+      };
+    }
+
     const actionId = selectedHands[hand];
     if (!actionId) return {};
 
@@ -144,8 +189,11 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
   };
 
   const getHandColorClass = (hand: string) => {
+    if (heatmap) {
+      return heatmap[hand] ? '' : 'bg-muted/50 text-muted-foreground hover:bg-muted/70';
+    }
     const actionId = selectedHands[hand];
-    if (!actionId) {
+    if (!actionId && !isMixedCell(hand)) {
       return 'bg-muted/50 text-muted-foreground hover:bg-muted/70';
     }
     // If an action is assigned, we let getHandStyle handle the colors
@@ -187,9 +235,14 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
             size="sm"
             className={cn(
               buttonClasses,
-              getHandColorClass(hand)
+              getHandColorClass(hand),
+              highlightedHands?.has(hand) && "ring-2 ring-offset-1 ring-yellow-400 font-bold",
+              mistakes?.[hand] && cn("ring-2 ring-inset font-bold", CELL_MISTAKE_CLASSES[mistakes[hand]])
             )}
-            style={getHandStyle(hand)}
+            style={overlay?.[hand]
+              ? { ...getHandStyle(hand), boxShadow: `inset 0 0 0 3px ${getHeatColor(overlay[hand])}` }
+              : getHandStyle(hand)}
+            title={getHandTitle(hand)}
             onMouseDown={() => handleMouseDown(hand)}
             onMouseEnter={() => handleMouseEnter(hand)}
             onTouchStart={(e) => {
@@ -198,7 +251,12 @@ export const PokerMatrix = ({ selectedHands, onHandSelect, activeAction, actionB
             }}
             disabled={readOnly || isBackgroundMode} // Disable interaction in background mode
           >
-            {hand}
+            {(heatmap || overlay)?.[hand]?.label ? (
+              <span className="flex flex-col items-center leading-tight">
+                <span>{hand}</span>
+                <span className="text-[0.7em] opacity-90">{(heatmap || overlay)[hand].label}</span>
+              </span>
+            ) : hand}
           </Button>
         ))
       )}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { useRangeContext } from "@/contexts/RangeContext";
+import { StoredTraining, loadCollection } from "@/lib/persistence";
+import {
+  DEFAULT_PROGRESS_FILTER,
+  PERIODS,
+  ProgressFilter,
+  ROLLING_WINDOW,
+  filterSessions,
+  getCalendarWeeks,
+  getDailyProgress,
+  getPracticeStreaks,
+} from "@/lib/trainingProgress";
+
+interface ProgressDashboardProps {
+  trainings: StoredTraining[];
+  typeLabels: Record<string, string>;
+  isMobileMode?: boolean;
+}
+
+const CALENDAR_WEEKS = 26;
+
+const accuracyConfig = {
+  accuracy: { label: 'Точность за день', color: 'hsl(var(--primary))' },
+  rollingAccuracy: { label: `Среднее за ${ROLLING_WINDOW} дней`, color: 'hsl(142 70% 40%)' },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  questions: { label: 'Вопросов', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) => `${date.slice(8, 10)}.${date.slice(5, 7)}`;
+
+const getCalendarClass = (questions: number) => {
+  if (questions === 0) return 'bg-muted';
+  if (questions < 20) return 'bg-primary/30';
+  if (questions < 50) return 'bg-primary/60';
+  return 'bg-primary';
+};
+
+// Accuracy and volume of the sessions over time, practice streaks and a calendar of practice days.
+export const ProgressDashboard = ({ trainings, typeLabels, isMobileMode = false }: ProgressDashboardProps) => {
+  const { folders } = useRangeContext();
+  const [filter, setFilter] = useState<ProgressFilter>(DEFAULT_PROGRESS_FILTER);
+  const now = Date.now();
+
+  const stats = loadCollection('statistics', []);
+  const sessions = filterSessions(stats, trainings, filter, now);
+  const days = getDailyProgress(sessions, filter.rangeId);
+  // The calendar and the streaks keep to the filters but not to the period
+  const allDays = getDailyProgress(filterSessions(stats, trainings, { ...filter, period: 'all' }, now), filter.rangeId);
+  const streaks = getPracticeStreaks(allDays.map(day => day.date), now);
+  const questionsByDay = new Map(allDays.map(day => [day.date, day.questions]));
+
+  // Percentages rounded for the tooltips
+  const chartDays = days.map(day => ({
+    ...day,
+    accuracy: Number(day.accuracy.toFixed(1)),
+    rollingAccuracy: Number(day.rollingAccuracy.toFixed(1)),
+  }));
+
+  const totalQuestions = days.reduce((sum, day) => sum + day.questions, 0);
+  const totalScore = days.reduce((sum, day) => sum + day.score, 0);
+
+  const ranges = folders.flatMap(folder => folder.ranges.map(range => ({ id: range.id, name: `${folder.name} - ${range.name}` })));
+  const rangeIds = new Set(stats.flatMap(stat => (stat.answers || []).map(answer => answer.rangeId)));
+
+  const trainingRows = trainings
+    .map(training => {
+      const trainingSessions = sessions.filter(stat => stat.trainingId === training.id);
+      const questions = trainingSessions.reduce((sum, stat) => sum + stat.totalQuestions, 0);
+      const score = trainingSessions.reduce((sum, stat) => sum + (stat.score ?? stat.correctAnswers), 0);
+      return { id: training.id, name: training.name, sessions: trainingSessions.length, questions, score };
+    })
+    .filter(row => row.questions > 0);
+
+  const rangeRows = ranges
+    .map(range => {
+      const answers = sessions.flatMap(stat => (stat.answers || []).filter(answer => answer.rangeId === range.id));
+      const score = answers.reduce((sum, answer) => sum + (answer.score ?? Number(answer.correct)), 0);
+      return { ...range, questions: answers.length, score };
+    })
+    .filter(row => row.questions > 0);
+
+  const updateFilter = (changes: Partial<ProgressFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className={cn("font-bold mb-2", isMobileMode ? "text-xl" : "text-2xl")}>Прогресс</h1>
+        <p className="text-muted-foreground text-sm">Выберите тренировку слева, чтобы запустить её.</p>
+      </div>
+
+      {/* Filters */}
+      <div className={cn("grid gap-3", isMobileMode ? "grid-cols-2" : "grid-cols-4")}>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Период</Label>
+          <Select value={filter.period} onValueChange={(period) => updateFilter({ period })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(period => (
+                <SelectItem key={period.value} value={period.value}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Вид тренировки</Label>
+          <Select value={filter.type} onValueChange={(type) => updateFilter({ type, trainingId: 'all' })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Все виды</SelectItem>
+              {Object.entries(typeLabels).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Тренировка</Label>
+          <Select value={filter.trainingId} onValueChange={(trainingId) => updateFilter({ trainingId })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Все тренировки</SelectItem>
+              {trainings
+                .filter(training => filter.type === 'all' || training.type === filter.type)
+                .map(training => (
+                  <SelectItem key={training.id} value={training.id}>{training.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Ренж</Label>
+          <Select value={filter.rangeId} onValueChange={(rangeId) => updateFilter({ rangeId })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Все ренжи</SelectItem>
+              {ranges.filter(range => rangeIds.has(range.id)).map(range => (
+                <SelectItem key={range.id} value={range.id}>{range.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Totals and streaks */}
+      <Card className="p-6">
+        <div className={cn("gap-4 text-center", isMobileMode ? "grid grid-cols-2" : "grid grid-cols-4")}>
+          <div>
+            <div className="text-2xl font-bold text-primary">
+              {totalQuestions > 0 ? ((totalScore / totalQuestions) * 100).toFixed(1) : '0.0'}%
+            </div>
+            <div className="text-sm text-muted-foreground">Точность</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-primary">{totalQuestions}</div>
+            <div className="text-sm text-muted-foreground">Вопросов</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-primary">{streaks.current}</div>
+            <div className="text-sm text-muted-foreground">Дней подряд</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-primary">{streaks.longest}</div>
+            <div className="text-sm text-muted-foreground">Лучшая серия</div>
+          </div>
+        </div>
+      </Card>
+
+      {days.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          За выбранный период нет сессий.
+        </Card>
+      ) : (
+        <div className={cn("grid gap-6", !isMobileMode && "lg:grid-cols-2")}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Точность</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={accuracyConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={chartDays} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />}
+                  />
+                  <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={1} dot={{ r: 3 }} type="monotone" />
+                  <Line dataKey="rollingAccuracy" stroke="var(--color-rollingAccuracy)" strokeWidth={2} dot={false} type="monotone" />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Объём</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={volumeConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={days} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />}
+                  />
+                  <Bar dataKey="questions" fill="var(--color-questions)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Calendar of practice days */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Дни практики</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <div className="flex gap-1">
+            {getCalendarWeeks(CALENDAR_WEEKS, now).map((week, index) => (
+              <div key={index} className="flex flex-col gap-1">
+                {week.map((day, dayIndex) => {
+                  const questions = day ? questionsByDay.get(day) || 0 : 0;
+                  return (
+                    <div
+                      key={dayIndex}
+                      className={cn("w-3 h-3 rounded-sm", day ? getCalendarClass(questions) : 'bg-transparent')}
+                      title={day ? `${formatDay(day)}: ${questions} вопросов` : undefined}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* By training and by range */}
+      {(trainingRows.length > 0 || rangeRows.length > 0) && (
+        <div className={cn("grid gap-6", !isMobileMode && "lg:grid-cols-2")}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">По тренировкам</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Тренировка</TableHead>
+                    <TableHead className="text-right">Сессий</TableHead>
+                    <TableHead className="text-right">Вопросов</TableHead>
+                    <TableHead className="text-right">Точность</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trainingRows.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-right">{row.sessions}</TableCell>
+                      <TableCell className="text-right">{row.questions}</TableCell>
+                      <TableCell className="text-right">{((row.score / row.questions) * 100).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">По ренжам</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ренж</TableHead>
+                    <TableHead className="text-right">Ответов</TableHead>
+                    <TableHead className="text-right">Точность</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rangeRows.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-right">{row.questions}</TableCell>
+                      <TableCell className="text-right">{((row.score / row.questions) * 100).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useRangeContext, Range, SimpleActionButton } from "@/contexts/RangeContext";
+import { PokerMatrix } from "./PokerMatrix";
+import { RangeSelect } from "./RangeSelect";
+import { TOTAL_COMBOS } from "@/lib/poker";
+import { RangeSetOperation, combineRanges, invertRange, filterRangeActions } from "@/lib/rangeAlgebra";
+import { HandRankingKind, buildTopRange, completeRanking, getEquityRanking, getSklanskyRanking } from "@/lib/handRankings";
+import { parseHandOrder } from "@/lib/rangeNotation";
+import { countRangeCombos } from "@/lib/rangeStrategy";
+import { useToast } from "@/hooks/use-toast";
+
+interface RangeBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialRangeId: string; // Used as range A when the dialog opens
+  onRangeCreated?: (rangeId: string) => void;
+}
+
+type BuilderOperation = RangeSetOperation | 'invert' | 'filter';
+
+const OPERATION_LABELS: Record<BuilderOperation, string> = {
+  union: 'Объединение (A + B)',
+  intersection: 'Пересечение (A ∩ B)',
+  subtract: 'Вычитание (A − B)',
+  invert: 'Инверсия (всё, что A фолдит)',
+  filter: 'Только выбранные действия A',
+};
+
+const RANKING_LABELS: Record<HandRankingKind, string> = {
+  equity: 'Эквити против случайной руки',
+  sklansky: 'Группы Склански',
+  custom: 'Свой порядок',
+};
+
+const isBinaryOperation = (operation: BuilderOperation): operation is RangeSetOperation =>
+  operation === 'union' || operation === 'intersection' || operation === 'subtract';
+
+export const RangeBuilderDialog = ({ open, onOpenChange, initialRangeId, onRangeCreated }: RangeBuilderDialogProps) => {
+  const { toast } = useToast();
+  const { folders, actionButtons, setFolders } = useRangeContext();
+  const simpleActionButtons = actionButtons.filter(b => b.type === 'simple') as SimpleActionButton[];
+
+  const [mode, setMode] = useState<'operations' | 'top'>('operations');
+  const [operation, setOperation] = useState<BuilderOperation>('union');
+  const [rangeAId, setRangeAId] = useState(initialRangeId);
+  const [rangeBId, setRangeBId] = useState("");
+  const [actionId, setActionId] = useState(simpleActionButtons[0]?.id || '');
+  const [filterActionIds, setFilterActionIds] = useState<string[]>([]);
+  const [ranking, setRanking] = useState<HandRankingKind>('equity');
+  const [customOrder, setCustomOrder] = useState("");
+  const [percent, setPercent] = useState(15);
+  const [name, setName] = useState("");
+  const [folderId, setFolderId] = useState("");
+
+  const allRanges = useMemo(() => folders.flatMap(folder => folder.ranges), [folders]);
+  const rangeA = allRanges.find(range => range.id === rangeAId) || null;
+  const rangeB = allRanges.find(range => range.id === rangeBId) || null;
+
+  useEffect(() => {
+    if (open) {
+      setRangeAId(initialRangeId);
+      setRangeBId("");
+      setName("");
+      setFolderId("");
+    }
+  }, [open, initialRangeId]);
+
+  // The selected action may have been deleted while the dialog was closed
+  const targetActionId = simpleActionButtons.some(button => button.id === actionId) ? actionId : simpleActionButtons[0]?.id || '';
+
+  const targetFolderId = folderId
+    || folders.find(folder => folder.ranges.some(range => range.id === rangeAId))?.id
+    || folders[0]?.id
+    || "";
+
+  const parsedOrder = useMemo(() => parseHandOrder(customOrder), [customOrder]);
+
+  const result = useMemo((): Pick<Range, 'hands' | 'combos' | 'mixes'> | null => {
+    if (mode === 'top') {
+      const order = ranking === 'equity' ? getEquityRanking()
+        : ranking === 'sklansky' ? getSklanskyRanking()
+        : completeRanking(parsedOrder.hands);
+      return targetActionId ? buildTopRange(order, percent, targetActionId) : null;
+    }
+    if (!rangeA) return null;
+    if (isBinaryOperation(operation)) {
+      return rangeB ? combineRanges(operation, rangeA, rangeB) : null;
+    }
+    if (operation === 'invert') return targetActionId ? invertRange(rangeA, targetActionId) : null;
+    return filterRangeActions(rangeA, filterActionIds);
+  }, [mode, ranking, parsedOrder, percent, targetActionId, rangeA, rangeB, operation, filterActionIds]);
+
+  const getDefaultName = () => {
+    if (mode === 'top') return `Топ ${percent}%`;
+    if (!rangeA) return '';
+    switch (operation) {
+      case 'union': return `${rangeA.name} + ${rangeB?.name}`;
+      case 'intersection': return `${rangeA.name} ∩ ${rangeB?.name}`;
+      case 'subtract': return `${rangeA.name} − ${rangeB?.name}`;
+      case 'invert': return `${rangeA.name} (инверсия)`;
+      case 'filter': return `${rangeA.name} (${actionButtons.filter(b => filterActionIds.includes(b.id)).map(b => b.name).join(', ')})`;
+    }
+  };
+
+  const toggleFilterAction = (id: string, checked: boolean) => {
+    setFilterActionIds(prev => (checked ? [...prev, id] : prev.filter(item => item !== id)));
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    const newRange: Range = {
+      id: Date.now().toString(),
+      name: name.trim() || getDefaultName(),
+      hands: result.hands,
+      ...(result.combos && { combos: result.combos }),
+      ...(result.mixes && { mixes: result.mixes }),
+    };
+    setFolders(prev => prev.map(folder =>
+      folder.id === targetFolderId ? { ...folder, ranges: [...folder.ranges, newRange] } : folder
+    ), `Новый ренж «${newRange.name}»`);
+    toast({ title: "Ренж сохранён", description: newRange.name });
+    onRangeCreated?.(newRange.id);
+    onOpenChange(false);
+  };
+
+  const renderActionSelect = () => (
+    <div className="space-y-2">
+      <Label>Действие</Label>
+      <Select value={targetActionId} onValueChange={setActionId}>
+        <SelectTrigger><SelectValue placeholder="Действие" /></SelectTrigger>
+        <SelectContent>
+          {simpleActionButtons.map(button => (
+            <SelectItem key={button.id} value={button.id}>{button.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const resultCombos = result ? countRangeCombos(result, actionButtons) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Конструктор ренжей</DialogTitle>
+          <DialogDescription>
+            Новый ренж из существующих или из лучших рук по рейтингу.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[300px_1fr]">
+          <div className="space-y-4">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as 'operations' | 'top')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="operations">Операции</TabsTrigger>
+                <TabsTrigger value="top">Топ N%</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="operations" className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label>Операция</Label>
+                  <Select value={operation} onValueChange={(value: BuilderOperation) => setOperation(value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(OPERATION_LABELS) as BuilderOperation[]).map(item => (
+                        <SelectItem key={item} value={item}>{OPERATION_LABELS[item]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Ренж A</Label>
+                  <RangeSelect value={rangeAId} onChange={setRangeAId} />
+                </div>
+                {isBinaryOperation(operation) && (
+                  <div className="space-y-2">
+                    <Label>Ренж B</Label>
+                    <RangeSelect value={rangeBId} onChange={setRangeBId} />
+                  </div>
+                )}
+                {operation === 'invert' && renderActionSelect()}
+                {operation === 'filter' && (
+                  <div className="space-y-2">
+                    <Label>Оставить действия</Label>
+                    {actionButtons.map(button => (
+                      <div key={button.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`filter-${button.id}`}
+                          checked={filterActionIds.includes(button.id)}
+                          onCheckedChange={(checked) => toggleFilterAction(button.id, checked === true)}
+                        />
+                        <Label htmlFor={`filter-${button.id}`}>{button.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="top" className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label>Рейтинг рук</Label>
+                  <Select value={ranking} onValueChange={(value: HandRankingKind) => setRanking(value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RANKING_LABELS) as HandRankingKind[]).map(item => (
+                        <SelectItem key={item} value={item}>{RANKING_LABELS[item]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {ranking === 'custom' && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={customOrder}
+                      onChange={(e) => setCustomOrder(e.target.value)}
+                      placeholder="AA, KK, AKs, QQ, AKo, JJ+ ..."
+                      className="font-mono text-sm"
+                      rows={4}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Руки от сильной к слабой. Не указанные руки идут следом по эквити.
+                    </p>
+                    {parsedOrder.errors.length > 0 && (
+                      <p className="text-xs text-destructive">Не распознано: {parsedOrder.errors.join(', ')}</p>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Доля рук, %</Label>
+                  <div className="flex items-center gap-3">
+                    <Slider
+                      value={[percent]}
+                      onValueChange={([value]) => setPercent(value)}
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      value={percent}
+                      onChange={(e) => setPercent(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                      className="w-20"
+                      min={0}
+                      max={100}
+                      step={0.5}
+                    />
+                  </div>
+                </div>
+                {renderActionSelect()}
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Сохранить как</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder={getDefaultName()} />
+              <Select value={targetFolderId} onValueChange={setFolderId}>
+                <SelectTrigger><SelectValue placeholder="Папка" /></SelectTrigger>
+                <SelectContent>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="w-full" onClick={handleSave} disabled={!result || !targetFolderId}>
+                Сохранить в папку
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 min-w-0">
+            {result ? (
+              <>
+                <p className="text-sm">
+                  Комбинаций: <span className="font-mono">{Math.round(resultCombos * 10) / 10}</span>
+                  <span className="text-muted-foreground"> ({Math.round(resultCombos / TOTAL_COMBOS * 1000) / 10}%)</span>
+                </p>
+                <PokerMatrix
+                  selectedHands={result.hands}
+                  combos={result.combos}
+                  mixes={result.mixes}
+                  onHandSelect={() => {}}
+                  activeAction=""
+                  actionButtons={actionButtons}
+                  readOnly
+                />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Выберите ренжи для операции.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
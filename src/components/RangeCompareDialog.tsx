@@ -0,0 +1,202 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { useRangeContext, Range } from "@/contexts/RangeContext";
+import { PokerMatrix } from "./PokerMatrix";
+import { RangeSelect } from "./RangeSelect";
+import { TOTAL_COMBOS } from "@/lib/poker";
+import { getActionColor } from "@/lib/actionColors";
+import { getActionDeltas, getChangedHands, pickHands } from "@/lib/rangeCompare";
+import { useToast } from "@/hooks/use-toast";
+
+interface RangeCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialRangeId: string; // Shown on the left when the dialog opens
+  onRangeCreated?: (rangeId: string) => void; // Called with the id of the saved difference range
+}
+
+const formatCombos = (combos: number) => (Math.round(combos * 10) / 10).toString();
+
+const formatPercent = (combos: number) => `${(Math.round(combos / TOTAL_COMBOS * 1000) / 10).toFixed(1)}%`;
+
+const formatSigned = (value: string, delta: number) => (delta > 0 ? `+${value}` : value);
+
+export const RangeCompareDialog = ({ open, onOpenChange, initialRangeId, onRangeCreated }: RangeCompareDialogProps) => {
+  const { toast } = useToast();
+  const { folders, actionButtons, setFolders } = useRangeContext();
+  const [leftId, setLeftId] = useState(initialRangeId);
+  const [rightId, setRightId] = useState("");
+  const [differenceSource, setDifferenceSource] = useState<'left' | 'right'>('right');
+  const [differenceName, setDifferenceName] = useState("");
+  const [folderId, setFolderId] = useState("");
+
+  const allRanges = useMemo(() => folders.flatMap(folder => folder.ranges), [folders]);
+  const left = allRanges.find(range => range.id === leftId) || null;
+  const right = allRanges.find(range => range.id === rightId) || null;
+
+  useEffect(() => {
+    if (open) {
+      setLeftId(initialRangeId);
+      setRightId("");
+      setDifferenceName("");
+      setFolderId("");
+    }
+  }, [open, initialRangeId]);
+
+  // Until a folder is picked the difference goes next to range A
+  const targetFolderId = folderId
+    || folders.find(folder => folder.ranges.some(range => range.id === leftId))?.id
+    || folders[0]?.id
+    || "";
+
+  const changedHands = useMemo(() => (left && right ? getChangedHands(left, right) : []), [left, right]);
+  const highlightedHands = useMemo(() => new Set(changedHands), [changedHands]);
+  const deltas = useMemo(
+    () => (left && right ? getActionDeltas(left, right, actionButtons) : []),
+    [left, right, actionButtons]
+  );
+
+  const getActionName = (actionId: string) =>
+    actionId === 'fold' ? 'Fold' : actionButtons.find(button => button.id === actionId)?.name || actionId;
+
+  const handleSaveDifference = () => {
+    if (!left || !right) return;
+    const source = differenceSource === 'left' ? left : right;
+    const newRange: Range = {
+      id: Date.now().toString(),
+      name: differenceName.trim() || `${right.name} − ${left.name}`,
+      ...pickHands(source, changedHands),
+    };
+    setFolders(prev => prev.map(folder =>
+      folder.id === targetFolderId ? { ...folder, ranges: [...folder.ranges, newRange] } : folder
+    ), `Разница ренжей «${newRange.name}»`);
+    toast({ title: "Ренж сохранён", description: newRange.name });
+    onRangeCreated?.(newRange.id);
+    onOpenChange(false);
+  };
+
+  const renderSide = (range: Range | null, rangeId: string, onChange: (rangeId: string) => void, label: string) => (
+    <div className="space-y-2 min-w-0">
+      <Label>{label}</Label>
+      <RangeSelect value={rangeId} onChange={onChange} />
+      {range && (
+        <PokerMatrix
+          selectedHands={range.hands}
+          combos={range.combos}
+          mixes={range.mixes}
+          onHandSelect={() => {}}
+          activeAction=""
+          actionButtons={actionButtons}
+          highlightedHands={highlightedHands}
+          readOnly
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Сравнение ренжей</DialogTitle>
+          <DialogDescription>
+            Ячейки, в которых ренжи отличаются, выделены на обеих матрицах.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2 overflow-hidden">
+          {renderSide(left, leftId, setLeftId, "Ренж A")}
+          {renderSide(right, rightId, setRightId, "Ренж B")}
+        </div>
+
+        {left && right && (
+          <div className="grid gap-6 md:grid-cols-2 pt-6">
+            <div className="space-y-2">
+              <p className="text-sm">
+                Отличается ячеек: <span className="font-mono">{changedHands.length}</span>
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Действие</TableHead>
+                    <TableHead className="text-right">A</TableHead>
+                    <TableHead className="text-right">B</TableHead>
+                    <TableHead className="text-right">B − A</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deltas.map(({ actionId, before, after }) => {
+                    const delta = after - before;
+                    return (
+                      <TableRow key={actionId}>
+                        <TableCell>
+                          <span className="flex items-center gap-2">
+                            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: getActionColor(actionId, actionButtons) }} />
+                            {getActionName(actionId)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatCombos(before)} ({formatPercent(before)})</TableCell>
+                        <TableCell className="text-right font-mono">{formatCombos(after)} ({formatPercent(after)})</TableCell>
+                        <TableCell className={cn(
+                          "text-right font-mono",
+                          delta > 0.05 && "text-green-600",
+                          delta < -0.05 && "text-destructive"
+                        )}>
+                          {formatSigned(formatCombos(delta), delta)} ({formatSigned(formatPercent(delta), delta)})
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Ренж разницы</p>
+              <p className="text-xs text-muted-foreground">
+                Только отличающиеся ячейки, остальные руки — фолд.
+              </p>
+              <RadioGroup
+                value={differenceSource}
+                onValueChange={(value: 'left' | 'right') => setDifferenceSource(value)}
+                className="flex gap-4"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="right" id="difference-right" />
+                  <Label htmlFor="difference-right">Действия B</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="left" id="difference-left" />
+                  <Label htmlFor="difference-left">Действия A</Label>
+                </div>
+              </RadioGroup>
+              <Input
+                value={differenceName}
+                onChange={(e) => setDifferenceName(e.target.value)}
+                placeholder={`${right.name} − ${left.name}`}
+              />
+              <Select value={targetFolderId} onValueChange={setFolderId}>
+                <SelectTrigger><SelectValue placeholder="Папка" /></SelectTrigger>
+                <SelectContent>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="w-full" onClick={handleSaveDifference} disabled={changedHands.length === 0 || !targetFolderId}>
+                Сохранить в папку
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
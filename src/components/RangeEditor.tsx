@@ -2,11 +2,24 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { PokerMatrix, getCombinations, TOTAL_POKER_COMBINATIONS } from "./PokerMatrix"; // Import helpers
-import { Plus, Palette, Trash2, Copy, SlidersHorizontal } from "lucide-react"; // Added Copy and SlidersHorizontal
+import { PokerMatrix, TOTAL_POKER_COMBINATIONS } from "./PokerMatrix"; // Import helpers
+import { Plus, Palette, Trash2, Copy, SlidersHorizontal, FileText, Grid2x2, Upload, FileClock, GitCompare, Wand2, Layers } from "lucide-react"; // Added Copy and SlidersHorizontal
 import { cn } from "@/lib/utils";
-import { useRangeContext, ActionButton } from "@/contexts/RangeContext";
+import { useRangeContext, ActionButton, SimpleActionButton } from "@/contexts/RangeContext";
 import { CreateActionButtonDialog } from "./CreateActionButtonDialog"; // Import the new dialog
+import { RangeTextDialog } from "./RangeTextDialog";
+import { SolverImportDialog } from "./SolverImportDialog";
+import { RangeHistoryControls } from "./RangeHistoryControls";
+import { RangeVersionsDialog } from "./RangeVersionsDialog";
+import { RangeCompareDialog } from "./RangeCompareDialog";
+import { HandStrengthDialog } from "./HandStrengthDialog";
+import { RangeBuilderDialog } from "./RangeBuilderDialog";
+import { ComboEditorDialog } from "./ComboEditorDialog";
+import { FrequencyEditor } from "./FrequencyEditor";
+import { clearHandCombos } from "@/lib/rangeCombos";
+import { countRangeCombos, getRangeActionCombos, getMixStrategy, isSameStrategy, setHandMix } from "@/lib/rangeStrategy";
+import { getActionSegments, getSegmentsBackground } from "@/lib/actionColors";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import {
   Dialog,
   DialogContent,
@@ -39,6 +52,8 @@ interface Range {
   id: string;
   name: string;
   hands: Record<string, string>;
+  combos?: Record<string, string>;
+  mixes?: Record<string, Record<string, number>>;
 }
 
 interface Folder {
@@ -51,6 +66,12 @@ interface RangeEditorProps {
   isMobileMode?: boolean;
 }
 
+// Pseudo action id of the brush that paints a frequency mix instead of a single action
+const MIX_BRUSH = '__mix';
+
+// Action by action, whatever order the percents were entered in
+const isSameMix = (a: Record<string, number> | undefined, b: Record<string, number>) => !!a && isSameStrategy(a, b);
+
 // Define FolderRangeTreeProps interface
 interface FolderRangeTreeProps {
   folders: Folder[]; // This will always be an array, even if it contains only one folder
@@ -244,13 +265,30 @@ const FolderRangeTreeContent = ({
 export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
   const [editingButton, setEditingButton] = useState<string | null>(null);
   const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
-  const { folders, setFolders, actionButtons, setActionButtons } = useRangeContext();
+  const { folders, setFolders, actionButtons, setActionButtons, undo, redo, beginHistoryGroup, endHistoryGroup } = useRangeContext();
   
   const [selectedRange, setSelectedRange] = useState<string>(folders[0]?.ranges[0]?.id || '');
   const [activeAction, setActiveAction] = useState(actionButtons[0]?.id || 'raise');
+  // The dialogs paint with a single action, the mix brush passes them the first simple one
+  const singleAction = activeAction === MIX_BRUSH
+    ? actionButtons.find(button => button.type === 'simple')?.id || 'fold'
+    : activeAction;
   const [showRangeSelectorDialog, setShowRangeSelectorDialog] = useState(false);
   const [openFolderId, setOpenFolderId] = useState<string | null>(null); // State for Accordion
   const [isCreateActionDialogOpen, setCreateActionDialogOpen] = useState(false);
+  const [isRangeTextDialogOpen, setRangeTextDialogOpen] = useState(false);
+  const [isSolverImportDialogOpen, setSolverImportDialogOpen] = useState(false);
+  const [isVersionsDialogOpen, setVersionsDialogOpen] = useState(false);
+  const [isCompareDialogOpen, setCompareDialogOpen] = useState(false);
+  const [isHandStrengthDialogOpen, setHandStrengthDialogOpen] = useState(false);
+  const [isBuilderDialogOpen, setBuilderDialogOpen] = useState(false);
+  const [isComboMode, setComboMode] = useState(false); // Clicking a cell opens its combos instead of painting
+  const [comboHand, setComboHand] = useState<string | null>(null);
+  const [mixBrush, setMixBrush] = useState<Record<string, number>>(() => {
+    const firstSimple = actionButtons.find(b => b.type === 'simple');
+    return firstSimple ? { [firstSimple.id]: 50 } : {};
+  });
+  const simpleActionButtons = actionButtons.filter(b => b.type === 'simple') as SimpleActionButton[];
 
   // Effect to set the open folder based on selectedRange
   useEffect(() => {
@@ -266,6 +304,30 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
     }
   }, [selectedRange, folders]);
 
+  // Undo may remove the active action button
+  useEffect(() => {
+    if (activeAction !== MIX_BRUSH && !actionButtons.some(b => b.id === activeAction)) {
+      setActiveAction(actionButtons[0]?.id || '');
+    }
+  }, [activeAction, actionButtons]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // e.code keeps the shortcut working with non-latin keyboard layouts
+      if (!(e.ctrlKey || e.metaKey) || e.code !== 'KeyZ') return;
+      // Text fields keep their native undo
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const getCurrentRangeAndFolder = () => {
     for (const folder of folders) {
       const range = folder.ranges.find(r => r.id === selectedRange);
@@ -284,13 +346,13 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       ranges: folder.ranges.map(range => 
         range.id === rangeId ? { ...range, name: newName } : range
       )
-    })));
+    })), 'Переименование ренжа', `rename-range-${rangeId}`);
   };
 
   const updateFolderName = (folderId: string, newName: string) => {
     setFolders(prev => prev.map(folder => 
       folder.id === folderId ? { ...folder, name: newName } : folder
-    ));
+    ), 'Переименование папки', `rename-folder-${folderId}`);
   };
 
   const addFolder = () => {
@@ -303,11 +365,12 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
         hands: {}
       }]
     };
-    setFolders(prev => [...prev, newFolder]);
+    setFolders(prev => [...prev, newFolder], 'Новая папка');
     setSelectedRange(newFolder.ranges[0].id);
   };
 
   const deleteFolder = (folderId: string) => {
+    const folderName = folders.find(folder => folder.id === folderId)?.name;
     setFolders(prev => {
       const updatedFolders = prev.filter(folder => folder.id !== folderId);
       if (updatedFolders.length === 0) {
@@ -326,7 +389,7 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
         setSelectedRange(updatedFolders[0].ranges[0]?.id || '');
       }
       return updatedFolders;
-    });
+    }, `Удаление папки «${folderName}»`);
   };
 
   const addRange = (folderId: string) => {
@@ -339,7 +402,7 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       folder.id === folderId 
         ? { ...folder, ranges: [...folder.ranges, newRange] }
         : folder
-    ));
+    ), 'Новый ренж');
     setSelectedRange(newRange.id);
   };
 
@@ -347,17 +410,20 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
     const newRange: Range = {
       id: Date.now().toString(),
       name: `${rangeToClone.name} +clone`,
-      hands: { ...rangeToClone.hands } // Deep copy hands
+      hands: { ...rangeToClone.hands }, // Deep copy hands
+      combos: rangeToClone.combos && { ...rangeToClone.combos },
+      mixes: rangeToClone.mixes && { ...rangeToClone.mixes }
     };
     setFolders(prev => prev.map(folder =>
       folder.id === folderId
         ? { ...folder, ranges: [...folder.ranges, newRange] }
         : folder
-    ));
+    ), `Копия ренжа «${rangeToClone.name}»`);
     setSelectedRange(newRange.id);
   };
 
   const deleteRange = (rangeId: string) => {
+    const rangeName = folders.flatMap(folder => folder.ranges).find(range => range.id === rangeId)?.name;
     setFolders(prev => {
       let newSelectedRange = selectedRange;
       const updatedFolders = prev.map(folder => {
@@ -395,18 +461,18 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       }
       setSelectedRange(newSelectedRange);
       return updatedFolders;
-    });
+    }, `Удаление ренжа «${rangeName}»`);
   };
 
   const handleSaveNewAction = (newButton: ActionButton) => {
-    setActionButtons(prev => [...prev, newButton]);
+    setActionButtons(prev => [...prev, newButton], `Новое действие «${newButton.name}»`);
     setActiveAction(newButton.id);
   };
 
   const updateActionButton = (id: string, field: 'name' | 'color', value: string) => {
     setActionButtons(prev => prev.map(button => 
       (button.id === id && button.type === 'simple') ? { ...button, [field]: value } : button
-    ));
+    ), field === 'name' ? 'Переименование действия' : 'Цвет действия', `${field}-action-${id}`);
   };
 
   const deleteActionButton = (id: string) => {
@@ -428,6 +494,9 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       });
     }
 
+    // Cleared hands and removed buttons are undone together
+    beginHistoryGroup(`Удаление действия «${buttonToDelete.name}»`);
+
     // Reset hands that use any of the deleted actions across all ranges.
     setFolders(prevFolders =>
       prevFolders.map(folder => ({
@@ -439,7 +508,17 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
               delete newHands[hand]; // This effectively reverts it to "fold"
             }
           });
-          return { ...range, hands: newHands };
+          const newCombos = range.combos && Object.fromEntries(
+            Object.entries(range.combos).filter(([, actionId]) => !idsToDelete.has(actionId))
+          );
+          // Frequencies of deleted actions fall back to fold
+          const newMixes = range.mixes && Object.fromEntries(
+            Object.entries(range.mixes).map(([hand, mix]) => [
+              hand,
+              Object.fromEntries(Object.entries(mix).filter(([actionId]) => !idsToDelete.has(actionId)))
+            ])
+          );
+          return { ...range, hands: newHands, combos: newCombos, mixes: newMixes };
         })
       }))
     );
@@ -452,15 +531,27 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       }
       return updatedButtons;
     });
+    endHistoryGroup();
   };
 
   const onHandSelect = (hand: string, mode: 'select' | 'deselect') => {
     const { range: currentRange } = getCurrentRangeAndFolder();
     if (!currentRange) return;
 
+    if (activeAction === MIX_BRUSH) {
+      if (mode === 'select') {
+        updateRange(currentRange.id, setHandMix(currentRange, hand, mixBrush));
+      } else if (isSameMix(currentRange.mixes?.[hand], mixBrush)) {
+        updateRange(currentRange.id, setHandMix(currentRange, hand, {}));
+      }
+      return;
+    }
+
     const newHands = { ...currentRange.hands };
+    const newMixes = { ...currentRange.mixes };
     if (mode === 'select') {
       newHands[hand] = activeAction;
+      delete newMixes[hand];
     } else { // mode === 'deselect'
       // Только удаляем, если текущее действие совпадает с активным
       if (newHands[hand] === activeAction) {
@@ -468,25 +559,61 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
       }
     }
 
+    // Repainting a whole cell drops its suit-specific overrides
+    const newCombos = clearHandCombos(currentRange.combos, [hand]);
+
+    updateRange(currentRange.id, {
+      hands: newHands,
+      combos: newCombos,
+      mixes: Object.keys(newMixes).length > 0 ? newMixes : undefined
+    });
+  };
+
+  const updateRange = (rangeId: string, patch: Partial<Range>, label?: string) => {
     setFolders(prev => prev.map(folder => ({
       ...folder,
-      ranges: folder.ranges.map(range => 
-        range.id === currentRange.id ? { ...range, hands: newHands } : range
+      ranges: folder.ranges.map(range =>
+        range.id === rangeId ? { ...range, ...patch } : range
       )
-    })));
+    })), label);
+  };
+
+  const handleStrokeStart = (mode: 'select' | 'deselect') => {
+    beginHistoryGroup(mode === 'select' ? 'Рисование' : 'Стирание');
+  };
+
+  // Applies hands parsed from text notation to the current range
+  const importRangeHands = (imported: Pick<Range, 'hands' | 'mixes'>, mode: 'merge' | 'replace') => {
+    const { range: currentRange } = getCurrentRangeAndFolder();
+    if (!currentRange) return;
+
+    const importedHandNames = [...Object.keys(imported.hands), ...Object.keys(imported.mixes || {})];
+    const base: Range = mode === 'replace'
+      ? { ...currentRange, hands: {}, mixes: undefined, combos: undefined }
+      : importedHandNames.reduce((range, hand) => setHandMix(range, hand, {}), currentRange);
+
+    const newMixes = { ...base.mixes, ...imported.mixes };
+    updateRange(currentRange.id, {
+      hands: { ...base.hands, ...imported.hands },
+      mixes: Object.keys(newMixes).length > 0 ? newMixes : undefined,
+      combos: base.combos
+    }, 'Импорт из текста');
+  };
+
+  // Applies edits of a single cell made in the hand dialog
+  const updateRangeCell = (updated: Pick<Range, 'hands' | 'combos' | 'mixes'>) => {
+    const { range: currentRange } = getCurrentRangeAndFolder();
+    if (!currentRange) return;
+
+    updateRange(currentRange.id, { hands: updated.hands, combos: updated.combos, mixes: updated.mixes }, `Комбинации ${comboHand}`);
   };
 
   const { folder: currentFolder, range: currentRange } = getCurrentRangeAndFolder();
 
   const getSelectedCombinationsCount = () => {
     if (!currentRange) return 0;
-    let count = 0;
-    Object.entries(currentRange.hands).forEach(([hand, action]) => {
-      if (action && action !== 'fold') {
-        count += getCombinations(hand);
-      }
-    });
-    return count;
+    // Mixed hands count with their frequency, so the total may be fractional
+    return Math.round(countRangeCombos(currentRange, actionButtons) * 10) / 10;
   };
 
   const getSelectedCombinationsPercentage = () => {
@@ -504,13 +631,31 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
           {isMobileMode || inDialog ? "Создать папку" : "Создать"}
         </h2>
         {(isMobileMode || inDialog) ? (
-          <Button size="sm" onClick={addFolder} variant="outline">
-            <Plus className="h-4 w-4" />  
-          </Button>
+          <div className="flex gap-2">
+            <RangeHistoryControls />
+            <Button size="sm" onClick={() => setBuilderDialogOpen(true)} variant="outline" title="Конструктор ренжей">
+              <Wand2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => setSolverImportDialogOpen(true)} variant="outline" title="Импорт из солвера">
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={addFolder} variant="outline">
+              <Plus className="h-4 w-4" />  
+            </Button>
+          </div>
         ) : (
-          <Button size="sm" onClick={addFolder} variant="ghost" className="h-6 w-6 p-0">
-            <Plus className="h-4 w-4" />
-          </Button>
+          <div className="flex gap-1">
+            <RangeHistoryControls isCompact />
+            <Button size="sm" onClick={() => setBuilderDialogOpen(true)} variant="ghost" className="h-6 w-6 p-0" title="Конструктор ренжей">
+              <Wand2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => setSolverImportDialogOpen(true)} variant="ghost" className="h-6 w-6 p-0" title="Импорт из солвера">
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={addFolder} variant="ghost" className="h-6 w-6 p-0">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
         )}
       </div>
       
@@ -626,6 +771,59 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
     return {};
   };
 
+  // Brush that paints the configured frequency mix onto cells
+  const renderMixBrush = () => (
+    <div className="flex items-center gap-2">
+      <Button
+        size="sm"
+        onClick={() => setActiveAction(MIX_BRUSH)}
+        style={{
+          background: getSegmentsBackground(
+            Object.entries(getMixStrategy(mixBrush)).flatMap(([actionId, fraction]) =>
+              getActionSegments(actionId, actionButtons, fraction)
+            )
+          )
+        }}
+        className={cn(
+          "flex-1 min-w-0 text-primary-foreground border-transparent",
+          "hover:opacity-90 transition-opacity",
+          activeAction === MIX_BRUSH && "ring-2 ring-offset-2 ring-offset-card ring-primary"
+        )}
+      >
+        <span className="truncate px-1">Микс</span>
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Настроить микс">
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64">
+          <FrequencyEditor actions={simpleActionButtons} value={mixBrush} onChange={setMixBrush} />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+
+  // Frequency-weighted combos per action of the current range
+  const renderActionBreakdown = () => {
+    if (!currentRange) return null;
+    const actionCombos = getRangeActionCombos(currentRange, actionButtons);
+    const entries = simpleActionButtons.filter(button => (actionCombos[button.id] || 0) > 0);
+    if (entries.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs font-mono text-muted-foreground">
+        {entries.map(button => (
+          <span key={button.id} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: button.color }} />
+            {button.name}: {Math.round(actionCombos[button.id] * 10) / 10}
+            ({Math.round(actionCombos[button.id] / TOTAL_POKER_COMBINATIONS * 1000) / 10}%)
+          </span>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div className={cn(
       "bg-background",
@@ -637,6 +835,62 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
         onSave={handleSaveNewAction}
       />
 
+      <SolverImportDialog
+        open={isSolverImportDialogOpen}
+        onOpenChange={setSolverImportDialogOpen}
+        onImported={setSelectedRange}
+      />
+
+      {currentRange && (
+        <RangeTextDialog
+          open={isRangeTextDialogOpen}
+          onOpenChange={setRangeTextDialogOpen}
+          range={currentRange}
+          actionButtons={actionButtons}
+          activeAction={singleAction}
+          onImport={importRangeHands}
+        />
+      )}
+
+      <RangeVersionsDialog
+        open={isVersionsDialogOpen}
+        onOpenChange={setVersionsDialogOpen}
+        range={currentRange}
+        onRangeCreated={setSelectedRange}
+      />
+
+      <RangeCompareDialog
+        open={isCompareDialogOpen}
+        onOpenChange={setCompareDialogOpen}
+        initialRangeId={currentRange?.id || ''}
+        onRangeCreated={setSelectedRange}
+      />
+
+      <HandStrengthDialog
+        open={isHandStrengthDialogOpen}
+        onOpenChange={setHandStrengthDialogOpen}
+        range={currentRange}
+      />
+
+      <RangeBuilderDialog
+        open={isBuilderDialogOpen}
+        onOpenChange={setBuilderDialogOpen}
+        initialRangeId={currentRange?.id || ''}
+        onRangeCreated={setSelectedRange}
+      />
+
+      {currentRange && (
+        <ComboEditorDialog
+          open={!!comboHand}
+          onOpenChange={(open) => !open && setComboHand(null)}
+          hand={comboHand}
+          range={currentRange}
+          actionButtons={actionButtons}
+          activeAction={singleAction}
+          onChange={updateRangeCell}
+        />
+      )}
+
       {isMobileMode ? (
         // MOBILE LAYOUT
         <>
@@ -661,10 +915,57 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                   <div className="bg-background/80 px-2 py-1 rounded text-xs font-mono flex items-center gap-1 z-10">
                     <span className="text-primary font-bold">{getSelectedCombinationsPercentage()}%</span>
                     <span className="text-muted-foreground">({getSelectedCombinationsCount()})</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 p-0"
+                      title="Ренж в текстовом виде"
+                      onClick={() => setRangeTextDialogOpen(true)}
+                    >
+                      <FileText className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 p-0"
+                      title="Версии ренжа"
+                      onClick={() => setVersionsDialogOpen(true)}
+                    >
+                      <FileClock className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 p-0"
+                      title="Сравнить с другим ренжем"
+                      onClick={() => setCompareDialogOpen(true)}
+                    >
+                      <GitCompare className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-5 w-5 p-0"
+                      title="Сила рук на борде"
+                      onClick={() => setHandStrengthDialogOpen(true)}
+                    >
+                      <Layers className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={isComboMode ? "secondary" : "ghost"}
+                      className="h-5 w-5 p-0"
+                      title="Редактировать комбинации"
+                      onClick={() => setComboMode(prev => !prev)}
+                    >
+                      <Grid2x2 className="h-3 w-3" />
+                    </Button>
                   </div>
                 )}
               </div>
 
+              <div className="mb-3">{renderActionBreakdown()}</div>
+
               {/* Poker Matrix */}
               {currentRange && (
                 <div className="overflow-x-auto">
@@ -673,6 +974,12 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                     onHandSelect={onHandSelect}
                     activeAction={activeAction}
                     actionButtons={actionButtons}
+                    combos={currentRange.combos}
+                    mixes={currentRange.mixes}
+                    onHandClick={isComboMode ? setComboHand : undefined}
+                    isHandSelected={activeAction === MIX_BRUSH ? (hand) => isSameMix(currentRange.mixes?.[hand], mixBrush) : undefined}
+                    onStrokeStart={handleStrokeStart}
+                    onStrokeEnd={endHistoryGroup}
                   />
                 </div>
               )}
@@ -750,6 +1057,7 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                       </div>
                     ))}
                   </div>
+                  {simpleActionButtons.length > 0 && renderMixBrush()}
                 </div>
               </div>
             </div>
@@ -858,6 +1166,7 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                     </div>
                   </div>
                 ))}
+                {simpleActionButtons.length > 0 && renderMixBrush()}
               </div>
             </div>
           </div>
@@ -884,10 +1193,57 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                     <div className="bg-background/80 px-2 py-1 rounded text-xs font-mono flex items-center gap-1 z-10">
                       <span className="text-primary font-bold">{getSelectedCombinationsPercentage()}%</span>
                       <span className="text-muted-foreground">({getSelectedCombinationsCount()})</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-5 w-5 p-0"
+                        title="Ренж в текстовом виде"
+                        onClick={() => setRangeTextDialogOpen(true)}
+                      >
+                        <FileText className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-5 w-5 p-0"
+                        title="Версии ренжа"
+                        onClick={() => setVersionsDialogOpen(true)}
+                      >
+                        <FileClock className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-5 w-5 p-0"
+                        title="Сравнить с другим ренжем"
+                        onClick={() => setCompareDialogOpen(true)}
+                      >
+                        <GitCompare className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-5 w-5 p-0"
+                        title="Сила рук на борде"
+                        onClick={() => setHandStrengthDialogOpen(true)}
+                      >
+                        <Layers className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={isComboMode ? "secondary" : "ghost"}
+                        className="h-5 w-5 p-0"
+                        title="Редактировать комбинации"
+                        onClick={() => setComboMode(prev => !prev)}
+                      >
+                        <Grid2x2 className="h-3 w-3" />
+                      </Button>
                     </div>
                   )}
                 </div>
 
+                {renderActionBreakdown()}
+
                 {currentRange && (
                   <div className={cn(
                     isMobileMode && "overflow-x-auto"
@@ -897,6 +1253,12 @@ export const RangeEditor = ({ isMobileMode = false }: RangeEditorProps) => {
                       onHandSelect={onHandSelect}
                       activeAction={activeAction}
                       actionButtons={actionButtons}
+                      combos={currentRange.combos}
+                      mixes={currentRange.mixes}
+                      onHandClick={isComboMode ? setComboHand : undefined}
+                      isHandSelected={activeAction === MIX_BRUSH ? (hand) => isSameMix(currentRange.mixes?.[hand], mixBrush) : undefined}
+                      onStrokeStart={handleStrokeStart}
+                      onStrokeEnd={endHistoryGroup}
                     />
                   </div>
                 )}
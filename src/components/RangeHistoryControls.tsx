@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Undo2, Redo2, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRangeContext, HistoryEntry } from "@/contexts/RangeContext";
+
+interface RangeHistoryControlsProps {
+  isCompact?: boolean; // Small ghost buttons for the desktop sidebar header
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const RangeHistoryControls = ({ isCompact = false }: RangeHistoryControlsProps) => {
+  const { undoStack, redoStack, undo, redo } = useRangeContext();
+
+  const buttonProps = isCompact
+    ? { variant: "ghost" as const, className: "h-6 w-6 p-0" }
+    : { variant: "outline" as const };
+
+  const renderEntry = (key: string, entry: HistoryEntry, isUndone: boolean, onClick: () => void) => (
+    <li key={key}>
+      <button
+        type="button"
+        onClick={onClick}
+        className={cn(
+          "w-full flex justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-accent",
+          isUndone && "text-muted-foreground line-through"
+        )}
+      >
+        <span className="truncate">{entry.label}</span>
+        <span className="text-xs font-mono text-muted-foreground">{formatTime(entry.timestamp)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <>
+      <Button size="sm" {...buttonProps} onClick={() => undo()} disabled={undoStack.length === 0} title="Отменить (Ctrl+Z)">
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button size="sm" {...buttonProps} onClick={() => redo()} disabled={redoStack.length === 0} title="Повторить (Ctrl+Shift+Z)">
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" {...buttonProps} title="История изменений">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-2">
+          <p className="px-2 pb-1 text-sm font-medium">История изменений</p>
+          {undoStack.length === 0 && redoStack.length === 0 ? (
+            <p className="px-2 py-1 text-xs text-muted-foreground">Изменений пока нет</p>
+          ) : (
+            // Newest first; clicking an entry brings the state right after that operation
+            <ul className="max-h-64 overflow-y-auto">
+              {redoStack.map((entry, index) => renderEntry(`redo-${index}`, entry, true, () => redo(redoStack.length - index)))}
+              {[...undoStack].reverse().map((entry, index) => renderEntry(`undo-${index}`, entry, false, () => undo(index)))}
+              <li>
+                <button
+                  type="button"
+                  onClick={() => undo(undoStack.length)}
+                  className="w-full rounded px-2 py-1 text-left text-xs text-muted-foreground hover:bg-accent"
+                >
+                  Исходное состояние
+                </button>
+              </li>
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+};
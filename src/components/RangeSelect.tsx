@@ -0,0 +1,29 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRangeContext } from "@/contexts/RangeContext";
+
+interface RangeSelectProps {
+  value: string;
+  onChange: (rangeId: string) => void;
+  placeholder?: string;
+}
+
+// Picks a range from the context, grouped by folder.
+export const RangeSelect = ({ value, onChange, placeholder = "Выберите ренж" }: RangeSelectProps) => {
+  const { folders } = useRangeContext();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue placeholder={placeholder} /></SelectTrigger>
+      <SelectContent>
+        {folders.filter(folder => folder.ranges.length > 0).map(folder => (
+          <SelectGroup key={folder.id}>
+            <SelectLabel>{folder.name}</SelectLabel>
+            {folder.ranges.map(range => (
+              <SelectItem key={range.id} value={range.id}>{range.name}</SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
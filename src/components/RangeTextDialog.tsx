@@ -0,0 +1,151 @@
+import { useState, useMemo, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Copy } from "lucide-react";
+import { ActionButton, Range } from "@/contexts/RangeContext";
+import { parseRangeText, formatRangeText } from "@/lib/rangeNotation";
+import { getHandStrategy } from "@/lib/rangeStrategy";
+import { ALL_HANDS } from "@/lib/poker";
+import { useToast } from "@/hooks/use-toast";
+
+interface RangeTextDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  range: Range;
+  actionButtons: ActionButton[];
+  activeAction: string;
+  onImport: (imported: Pick<Range, 'hands' | 'mixes'>, mode: 'merge' | 'replace') => void;
+}
+
+export const RangeTextDialog = ({ open, onOpenChange, range, actionButtons, activeAction, onImport }: RangeTextDialogProps) => {
+  const { toast } = useToast();
+  // The editor's brush may be fold or the mix brush, which no button of the list stands for
+  const initialActionId = actionButtons.some(button => button.id === activeAction)
+    ? activeAction
+    : (actionButtons.find(button => button.type === 'simple') || actionButtons[0])?.id || '';
+  const [actionId, setActionId] = useState(initialActionId);
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+
+  useEffect(() => {
+    if (open) setActionId(initialActionId);
+  }, [open, initialActionId]);
+
+  const parsed = useMemo(() => parseRangeText(text), [text]);
+  const parsedCount = Object.keys(parsed.weights).length;
+  const partialCount = Object.values(parsed.weights).filter(weight => weight < 1).length;
+  // Frequency of the chosen action in every hand, mixed hands are written as "AKo:0.5"
+  const exportText = useMemo(
+    () => formatRangeText(Object.fromEntries(ALL_HANDS.map(hand => [hand, getHandStrategy(range, hand)[actionId] || 0]))),
+    [range, actionId]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText);
+      toast({ title: "Скопировано", description: "Ренж скопирован в буфер обмена." });
+    } catch (error) {
+      console.error("Failed to copy range text:", error);
+      toast({ title: "Ошибка", description: "Не удалось скопировать текст.", variant: "destructive" });
+    }
+  };
+
+  const handleImport = () => {
+    if (parsedCount === 0 || !actionId) return;
+    const hands: Record<string, string> = {};
+    const mixes: Record<string, Record<string, number>> = {};
+    Object.entries(parsed.weights).forEach(([hand, weight]) => {
+      if (weight >= 1) {
+        hands[hand] = actionId;
+      } else {
+        mixes[hand] = { [actionId]: Math.round(weight * 100) };
+      }
+    });
+    onImport({ hands, mixes }, mode);
+    setText("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Ренж в текстовом виде</DialogTitle>
+          <DialogDescription>
+            Вставьте ренж в формате "22+, A2s+, KTs+, AJo+, 76s-54s" или скопируйте текущий.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>Действие</Label>
+            <Select value={actionId} onValueChange={setActionId}>
+              <SelectTrigger><SelectValue placeholder="Выберите" /></SelectTrigger>
+              <SelectContent>
+                {actionButtons.map(button => (
+                  <SelectItem key={button.id} value={button.id}>{button.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Текущий ренж</Label>
+              <Button size="sm" variant="outline" onClick={handleCopy} disabled={!exportText}>
+                <Copy className="h-3 w-3 mr-2" />
+                Копировать как текст
+              </Button>
+            </div>
+            <div className="rounded-md border bg-muted/50 p-2 text-xs font-mono break-words min-h-[2rem]">
+              {exportText || <span className="text-muted-foreground">Нет рук с этим действием</span>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="range-text-input">Вставить ренж</Label>
+            <Textarea
+              id="range-text-input"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="22+, A2s+, KTs+, AJo+, AKo:0.5"
+              className="font-mono text-xs"
+            />
+            {text.trim() && (
+              <div className="text-xs space-y-1">
+                <p className="text-muted-foreground">Распознано рук: {parsedCount}</p>
+                {partialCount > 0 && (
+                  <p className="text-muted-foreground">
+                    Рук с частотой меньше 100%: {partialCount} (остаток частоты уйдёт в фолд)
+                  </p>
+                )}
+                {parsed.errors.length > 0 && (
+                  <p className="text-destructive">Не удалось разобрать: {parsed.errors.join(', ')}</p>
+                )}
+              </div>
+            )}
+            <RadioGroup value={mode} onValueChange={(v: 'merge' | 'replace') => setMode(v)} className="flex gap-4 pt-1">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="merge" id="range-text-merge" />
+                <Label htmlFor="range-text-merge">Добавить к ренжу</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="replace" id="range-text-replace" />
+                <Label htmlFor="range-text-replace">Заменить ренж</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Отмена</Button>
+          <Button onClick={handleImport} disabled={parsedCount === 0}>Импортировать</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
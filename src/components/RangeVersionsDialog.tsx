@@ -0,0 +1,192 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRangeContext, Range } from "@/contexts/RangeContext";
+import { PokerMatrix } from "./PokerMatrix";
+import { getRangeVersions } from "@/lib/rangeVersions";
+import { getChangedHands } from "@/lib/rangeCompare";
+import { useToast } from "@/hooks/use-toast";
+
+interface RangeVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  range: Range | null; // The current version of the range
+  onRangeCreated?: (rangeId: string) => void; // Called with the id of a range restored as a copy
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const RangeVersionsDialog = ({ open, onOpenChange, range, onRangeCreated }: RangeVersionsDialogProps) => {
+  const { toast } = useToast();
+  const { actionButtons, setFolders, rangeVersions, saveRangeVersion, deleteRangeVersion } = useRangeContext();
+  const [note, setNote] = useState("");
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [isShowingCurrent, setShowingCurrent] = useState(false);
+
+  const versions = useMemo(
+    () => (range ? getRangeVersions(rangeVersions, range.id) : []),
+    [rangeVersions, range]
+  );
+  const selectedVersion = versions.find(version => version.id === selectedVersionId) || null;
+  const changedHands = useMemo(
+    () => (range && selectedVersion ? new Set(getChangedHands(selectedVersion.range, range)) : new Set<string>()),
+    [range, selectedVersion]
+  );
+
+  useEffect(() => {
+    if (open) {
+      setNote("");
+      setSelectedVersionId(null);
+      setShowingCurrent(false);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (open && !selectedVersion && versions.length > 0) {
+      setSelectedVersionId(versions[0].id);
+    }
+  }, [open, selectedVersion, versions]);
+
+  if (!range) return null;
+
+  const handleSave = () => {
+    saveRangeVersion(range.id, { note: note.trim() || undefined });
+    setNote("");
+    setSelectedVersionId(null);
+    toast({ title: "Версия сохранена", description: range.name });
+  };
+
+  const handleRestore = () => {
+    if (!selectedVersion) return;
+    // The current state stays available as a version of its own
+    saveRangeVersion(range.id, { isAuto: true });
+    const { name, hands, combos, mixes } = selectedVersion.range;
+    setFolders(prev => prev.map(folder => ({
+      ...folder,
+      ranges: folder.ranges.map(item => item.id === range.id ? { id: range.id, name, hands, combos, mixes } : item),
+    })), `Восстановление версии «${name}»`);
+    toast({ title: "Версия восстановлена", description: formatDate(selectedVersion.timestamp) });
+    onOpenChange(false);
+  };
+
+  const handleRestoreAsCopy = () => {
+    if (!selectedVersion) return;
+    const newRange: Range = {
+      ...selectedVersion.range,
+      id: Date.now().toString(),
+      name: `${selectedVersion.range.name} (${formatDate(selectedVersion.timestamp)})`,
+    };
+    setFolders(prev => prev.map(folder =>
+      folder.ranges.some(item => item.id === range.id)
+        ? { ...folder, ranges: [...folder.ranges, newRange] }
+        : folder
+    ), `Копия версии «${selectedVersion.range.name}»`);
+    onRangeCreated?.(newRange.id);
+    onOpenChange(false);
+  };
+
+  const shownRange = isShowingCurrent || !selectedVersion ? range : selectedVersion.range;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Версии ренжа «{range.name}»</DialogTitle>
+          <DialogDescription>
+            Версии сохраняются вручную и автоматически перед крупными изменениями.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[260px_1fr]">
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Комментарий (необязательно)" />
+              <Button className="w-full" onClick={handleSave}>Сохранить версию</Button>
+            </div>
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Сохранённых версий пока нет.</p>
+            ) : (
+              <ul className="space-y-1 max-h-[50vh] overflow-y-auto">
+                {versions.map(version => (
+                  <li key={version.id} className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setSelectedVersionId(version.id)}
+                      className={cn(
+                        "flex-1 min-w-0 rounded px-2 py-1 text-left hover:bg-accent",
+                        version.id === selectedVersionId && "bg-accent"
+                      )}
+                    >
+                      <div className="flex justify-between gap-2 text-sm">
+                        <span className="font-mono">{formatDate(version.timestamp)}</span>
+                        <span className="text-xs text-muted-foreground">{version.isAuto ? "авто" : "вручную"}</span>
+                      </div>
+                      {version.note && <p className="text-xs text-muted-foreground truncate">{version.note}</p>}
+                    </button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      title="Удалить версию"
+                      onClick={() => deleteRangeVersion(version.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-3 min-w-0">
+            {selectedVersion ? (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm">
+                    Отличается ячеек от текущей: <span className="font-mono">{changedHands.size}</span>
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="version-show-current" checked={isShowingCurrent} onCheckedChange={setShowingCurrent} />
+                    <Label htmlFor="version-show-current">Текущая версия</Label>
+                  </div>
+                </div>
+                <PokerMatrix
+                  selectedHands={shownRange.hands}
+                  combos={shownRange.combos}
+                  mixes={shownRange.mixes}
+                  onHandSelect={() => {}}
+                  activeAction=""
+                  actionButtons={actionButtons}
+                  highlightedHands={changedHands}
+                  readOnly
+                />
+                <div className="flex flex-wrap justify-end gap-2 pt-4">
+                  <Button variant="outline" onClick={handleRestoreAsCopy}>Восстановить как копию</Button>
+                  <Button onClick={handleRestore} disabled={changedHands.size === 0 && selectedVersion.range.name === range.name}>
+                    Восстановить
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <PokerMatrix
+                selectedHands={range.hands}
+                combos={range.combos}
+                mixes={range.mixes}
+                onHandSelect={() => {}}
+                activeAction=""
+                actionButtons={actionButtons}
+                readOnly
+              />
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,381 @@
+import { useState, useMemo, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Upload } from "lucide-react";
+import { useRangeContext, Folder, Range, SimpleActionButton } from "@/contexts/RangeContext";
+import { PokerMatrix } from "./PokerMatrix";
+import {
+  SolverFormat,
+  SolverActionMapping,
+  parseSolverExport,
+  buildNodeRange,
+  getNodeActionCombos,
+} from "@/lib/solverImport";
+import { FOLD_COLOR } from "@/lib/actionColors";
+import { useToast } from "@/hooks/use-toast";
+
+interface SolverImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: (rangeId: string) => void;
+}
+
+type Step = 'input' | 'mapping' | 'preview';
+
+const NEW_ACTION = '__new';
+const SKIP_ACTION = '__skip';
+const NEW_FOLDER = '__new';
+const DEFAULT_NODE_NAME = 'Импорт';
+const NEW_ACTION_COLORS = ['#ef4444', '#10b981', '#f59e0b', '#3b82f6', '#ec4899', '#14b8a6', '#8b5cf6'];
+const MAX_LISTED_ISSUES = 20;
+
+const FORMAT_LABELS: Record<SolverFormat | 'auto', string> = {
+  auto: 'Определить автоматически',
+  weights: 'Список "рука:вес"',
+  actions: 'Ренжи по действиям',
+  csv: 'CSV таблица стратегии',
+};
+
+// Suggests a target for a solver action: a button with the same name, fold, or a new button.
+const guessMapping = (action: string, buttons: SimpleActionButton[]): string => {
+  const name = action.toLowerCase();
+  if (/^(fold|фолд)/.test(name)) return 'fold';
+  const exact = buttons.find(button => button.name.toLowerCase() === name);
+  if (exact) return exact.id;
+  const prefix = buttons.find(button => name.startsWith(button.name.toLowerCase()));
+  return prefix ? prefix.id : NEW_ACTION;
+};
+
+export const SolverImportDialog = ({ open, onOpenChange, onImported }: SolverImportDialogProps) => {
+  const { folders, actionButtons, setFolders, setActionButtons, beginHistoryGroup, endHistoryGroup } = useRangeContext();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<Step>('input');
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<SolverFormat | 'auto'>('auto');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [newButtonIds, setNewButtonIds] = useState<Record<string, string>>({});
+  const [folderId, setFolderId] = useState<string>(NEW_FOLDER);
+  const [newFolderName, setNewFolderName] = useState("Импорт из солвера");
+  const [previewNode, setPreviewNode] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setStep('input');
+      setPreviewNode(0);
+    }
+  }, [open]);
+
+  const simpleActionButtons = useMemo(
+    () => actionButtons.filter(b => b.type === 'simple') as SimpleActionButton[],
+    [actionButtons]
+  );
+
+  const parsed = useMemo(() => parseSolverExport(text, format, DEFAULT_NODE_NAME), [text, format]);
+  const solverActions = useMemo(
+    () => [...new Set(parsed.nodes.flatMap(node => node.actions))],
+    [parsed]
+  );
+
+  // Buttons that will be created for actions mapped to "new"
+  const newButtons = useMemo(
+    () => solverActions
+      .filter(action => mapping[action] === NEW_ACTION)
+      .map((action, index): SimpleActionButton => ({
+        type: 'simple',
+        id: newButtonIds[action],
+        name: action,
+        color: NEW_ACTION_COLORS[index % NEW_ACTION_COLORS.length],
+      })),
+    [solverActions, mapping, newButtonIds]
+  );
+
+  const resolvedMapping = useMemo<SolverActionMapping>(
+    () => Object.fromEntries(solverActions.map(action => {
+      const target = mapping[action];
+      if (target === SKIP_ACTION) return [action, null];
+      return [action, target === NEW_ACTION ? newButtonIds[action] : target];
+    })),
+    [solverActions, mapping, newButtonIds]
+  );
+
+  const importedRanges = useMemo(
+    () => parsed.nodes.map(node => ({ name: node.name, ...buildNodeRange(node, resolvedMapping) })),
+    [parsed, resolvedMapping]
+  );
+
+  // Combos of actions left out of the mapping; they end up as fold
+  const unmappedCombos = useMemo(() => {
+    const totals: Record<string, number> = {};
+    parsed.nodes.forEach(node => {
+      Object.entries(getNodeActionCombos(node)).forEach(([action, combos]) => {
+        if (resolvedMapping[action] === null) totals[action] = (totals[action] || 0) + combos;
+      });
+    });
+    return totals;
+  }, [parsed, resolvedMapping]);
+
+  const actionCombos = useMemo(() => {
+    const totals: Record<string, number> = {};
+    parsed.nodes.forEach(node => {
+      Object.entries(getNodeActionCombos(node)).forEach(([action, combos]) => {
+        totals[action] = (totals[action] || 0) + combos;
+      });
+    });
+    return totals;
+  }, [parsed]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setText(await file.text());
+    } catch (error) {
+      console.error("Failed to read solver export:", error);
+      toast({ title: "Ошибка", description: "Не удалось прочитать файл.", variant: "destructive" });
+    }
+    e.target.value = "";
+  };
+
+  const goToMapping = () => {
+    const stamp = Date.now();
+    setMapping(Object.fromEntries(solverActions.map(action => [
+      action,
+      mapping[action] ?? guessMapping(action, simpleActionButtons),
+    ])));
+    setNewButtonIds(Object.fromEntries(solverActions.map((action, index) => [
+      action,
+      newButtonIds[action] ?? `${stamp}-solver-${index}`,
+    ])));
+    if (folderId !== NEW_FOLDER && !folders.some(folder => folder.id === folderId)) {
+      setFolderId(NEW_FOLDER);
+    }
+    setStep('mapping');
+  };
+
+  const handleImport = () => {
+    const stamp = Date.now();
+    const ranges: Range[] = importedRanges.map((range, index) => ({
+      id: `${stamp}-range-${index}`,
+      name: range.name,
+      hands: range.hands,
+      ...(range.mixes && { mixes: range.mixes }),
+    }));
+
+    beginHistoryGroup('Импорт из солвера');
+    if (newButtons.length > 0) {
+      setActionButtons(prev => [...prev, ...newButtons]);
+    }
+    if (folderId === NEW_FOLDER) {
+      const newFolder: Folder = {
+        id: stamp.toString(),
+        name: newFolderName.trim() || 'Импорт из солвера',
+        ranges,
+      };
+      setFolders(prev => [...prev, newFolder]);
+    } else {
+      setFolders(prev => prev.map(folder =>
+        folder.id === folderId ? { ...folder, ranges: [...folder.ranges, ...ranges] } : folder
+      ));
+    }
+    endHistoryGroup();
+
+    toast({ title: "Импорт завершён", description: `Создано ренжей: ${ranges.length}` });
+    onImported?.(ranges[0].id);
+    setText("");
+    setMapping({});
+    setNewButtonIds({});
+    onOpenChange(false);
+  };
+
+  const renderIssues = () => parsed.issues.length > 0 && (
+    <div className="space-y-1 text-xs">
+      <p className="text-destructive">Пропущено некорректных записей: {parsed.issues.length}</p>
+      <ul className="max-h-24 overflow-y-auto rounded-md border p-2 font-mono text-muted-foreground">
+        {parsed.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+          <li key={index}>Строка {issue.line}: {issue.entry}</li>
+        ))}
+        {parsed.issues.length > MAX_LISTED_ISSUES && (
+          <li>и ещё {parsed.issues.length - MAX_LISTED_ISSUES}</li>
+        )}
+      </ul>
+    </div>
+  );
+
+  const renderInputStep = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Формат</Label>
+        <Select value={format} onValueChange={(v: SolverFormat | 'auto') => setFormat(v)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="solver-import-text">Экспорт солвера</Label>
+          <Button size="sm" variant="outline" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-3 w-3 mr-2" />
+              Загрузить файл
+              <input type="file" accept=".txt,.csv" className="hidden" onChange={handleFileChange} />
+            </label>
+          </Button>
+        </div>
+        <Textarea
+          id="solver-import-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"AA:1, AKs:0.5, AsKd:0.25\n\n# BTN open\nRaise: 22+, A2s+:0.5\n\nHand,Raise,Call,Fold"}
+          className="font-mono text-xs min-h-[160px]"
+        />
+      </div>
+      {text.trim() && (
+        <div className="space-y-1 text-xs">
+          <p className="text-muted-foreground">
+            Формат: {FORMAT_LABELS[parsed.format]}. Узлов: {parsed.nodes.length}, действий: {solverActions.length}
+          </p>
+          {renderIssues()}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Действия солвера</h4>
+        {solverActions.map(action => (
+          <div key={action} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">{action}</p>
+              <p className="text-xs text-muted-foreground">{actionCombos[action]?.toFixed(1)} комб.</p>
+            </div>
+            <Select value={mapping[action]} onValueChange={(v) => setMapping(prev => ({ ...prev, [action]: v }))}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {simpleActionButtons.map(button => (
+                  <SelectItem key={button.id} value={button.id}>
+                    <span className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: button.color }} />
+                      {button.name}
+                    </span>
+                  </SelectItem>
+                ))}
+                <SelectItem value="fold">
+                  <span className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: FOLD_COLOR }} />
+                    Fold
+                  </span>
+                </SelectItem>
+                <SelectItem value={NEW_ACTION}>Новое действие "{action}"</SelectItem>
+                <SelectItem value={SKIP_ACTION}>Не импортировать</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Папка</Label>
+        <Select value={folderId} onValueChange={setFolderId}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_FOLDER}>Новая папка</SelectItem>
+            {folders.map(folder => (
+              <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {folderId === NEW_FOLDER && (
+          <Input value={newFolderName} onChange={(e) => setNewFolderName(e.target.value)} placeholder="Название папки" />
+        )}
+      </div>
+    </div>
+  );
+
+  const renderPreviewStep = () => {
+    const range = importedRanges[previewNode] || importedRanges[0];
+    const unmapped = Object.entries(unmappedCombos);
+    return (
+      <div className="space-y-4">
+        {importedRanges.length > 1 && (
+          <Select value={String(previewNode)} onValueChange={(v) => setPreviewNode(Number(v))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {importedRanges.map((imported, index) => (
+                <SelectItem key={index} value={String(index)}>{imported.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {range && (
+          <PokerMatrix
+            selectedHands={range.hands}
+            mixes={range.mixes}
+            onHandSelect={() => {}}
+            activeAction=""
+            actionButtons={[...actionButtons, ...newButtons]}
+            readOnly
+          />
+        )}
+        <div className="space-y-1 text-xs">
+          <p className="text-muted-foreground">
+            Будет создано ренжей: {importedRanges.length}
+            {newButtons.length > 0 && `, новых действий: ${newButtons.length}`}
+          </p>
+          {unmapped.length > 0 && (
+            <p className="text-destructive">
+              Не сопоставлены (уйдут в фолд): {unmapped.map(([action, combos]) => `${action} (${combos.toFixed(1)} комб.)`).join(', ')}
+            </p>
+          )}
+          {renderIssues()}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Импорт из солвера</DialogTitle>
+          <DialogDescription>
+            {step === 'input' && "Вставьте экспорт PioSOLVER, GTO+ или GTO Wizard либо загрузите файл."}
+            {step === 'mapping' && "Сопоставьте действия солвера с кнопками действий и выберите папку."}
+            {step === 'preview' && "Проверьте ренжи перед импортом."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'input' && renderInputStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'preview' && renderPreviewStep()}
+
+        <DialogFooter>
+          {step === 'input' ? (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Отмена</Button>
+          ) : (
+            <Button variant="outline" onClick={() => setStep(step === 'preview' ? 'mapping' : 'input')}>Назад</Button>
+          )}
+          {step === 'input' && (
+            <Button onClick={goToMapping} disabled={parsed.nodes.length === 0}>Далее</Button>
+          )}
+          {step === 'mapping' && (
+            <Button onClick={() => setStep('preview')}>Далее</Button>
+          )}
+          {step === 'preview' && (
+            <Button onClick={handleImport} disabled={importedRanges.length === 0}>Импортировать</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
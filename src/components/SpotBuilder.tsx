@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { RangeSelect } from "./RangeSelect";
+import { useRangeContext } from "@/contexts/RangeContext";
+import {
+  DEFAULT_STACK,
+  POSITIONS,
+  Position,
+  SPOT_ACTION_LABELS,
+  SPOT_ACTION_TYPES,
+  SpotAction,
+  SpotActionType,
+  TableSpot,
+  describeSpot,
+  findSpotRange,
+} from "@/lib/tableSpots";
+
+interface SpotBuilderProps {
+  spots: TableSpot[];
+  onChange: (spots: TableSpot[]) => void;
+}
+
+// Describes a spot action by action and adds it with the range found for it.
+export const SpotBuilder = ({ spots, onChange }: SpotBuilderProps) => {
+  const { folders } = useRangeContext();
+  const [hero, setHero] = useState<Position>('BTN');
+  const [stack, setStack] = useState(String(DEFAULT_STACK));
+  const [actions, setActions] = useState<SpotAction[]>([]);
+
+  const stackValue = Number(stack);
+  const isStackValid = Number.isFinite(stackValue) && stackValue > 0;
+  const isActionsValid = actions.every(action => action.type !== 'raise' || (action.size && action.size > 1));
+
+  const updateAction = (index: number, changes: Partial<SpotAction>) => {
+    setActions(prev => prev.map((action, i) => (i === index ? { ...action, ...changes } : action)));
+  };
+
+  const handleAddAction = () => {
+    const hasRaise = actions.some(action => action.type === 'raise');
+    setActions(prev => [...prev, { position: 'UTG', type: 'raise', size: hasRaise ? 8 : 2.5 }]);
+  };
+
+  const handleAddSpot = () => {
+    if (!isStackValid || !isActionsValid) return;
+    const spot: TableSpot = { hero, stack: stackValue, actions };
+    onChange([...spots, { ...spot, rangeId: findSpotRange(spot, folders)?.id }]);
+    setActions([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Card className="p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Позиция героя</Label>
+            <Select value={hero} onValueChange={(value: Position) => setHero(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POSITIONS.map(position => (
+                  <SelectItem key={position} value={position}>{position}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="spot-stack" className="text-xs text-muted-foreground">Эффективный стек, bb</Label>
+            <Input id="spot-stack" type="number" min={1} value={stack} onChange={(e) => setStack(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Действия до героя</Label>
+          {actions.map((action, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={action.position} onValueChange={(value: Position) => updateAction(index, { position: value })}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POSITIONS.map(position => (
+                    <SelectItem key={position} value={position}>{position}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={action.type} onValueChange={(value: SpotActionType) => updateAction(index, { type: value })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPOT_ACTION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{SPOT_ACTION_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {action.type === 'raise' && (
+                <Input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  className="w-20"
+                  value={action.size ?? ''}
+                  onChange={(e) => updateAction(index, { size: Number(e.target.value) })}
+                />
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setActions(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button size="sm" variant="outline" onClick={handleAddAction}>
+            <Plus className="h-3 w-3 mr-1" />
+            Действие
+          </Button>
+        </div>
+
+        {isStackValid && (
+          <p className="text-xs text-muted-foreground">{describeSpot({ hero, stack: stackValue, actions })}</p>
+        )}
+        <Button size="sm" onClick={handleAddSpot} disabled={!isStackValid || !isActionsValid}>
+          Добавить спот
+        </Button>
+      </Card>
+
+      {spots.map((spot, index) => (
+        <Card key={index} className="p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm">{describeSpot(spot)}</p>
+            <Button size="sm" variant="ghost" onClick={() => onChange(spots.filter((_, i) => i !== index))}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          {!spot.rangeId && (
+            <p className="text-xs text-destructive">Ренж для спота не найден, выберите его вручную</p>
+          )}
+          <RangeSelect
+            value={spot.rangeId || ''}
+            onChange={(rangeId) => onChange(spots.map((item, i) => (i === index ? { ...item, rangeId } : item)))}
+          />
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HardDrive } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { StorageUsage, STORAGE_WARNING_RATIO, getStorageUsage, subscribeToStorage } from "@/lib/persistence";
+import { useToast } from "@/hooks/use-toast";
+
+const BACKEND_LABELS: Record<StorageUsage['backend'], string> = {
+  indexedDB: 'IndexedDB',
+  localStorage: 'localStorage',
+};
+
+// Usage is re-estimated at most this often while data is being saved
+const REFRESH_DELAY = 2000;
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} ГБ`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+  return `${Math.ceil(bytes / 1024)} КБ`;
+};
+
+export const StorageUsageIndicator = () => {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const hasWarned = useRef(false);
+  const isFailing = useRef(false); // a failed save was reported and nothing has been saved since
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const refresh = async () => {
+      timeout = null;
+      try {
+        const next = await getStorageUsage();
+        setUsage(next);
+        if (next.usage / next.quota >= STORAGE_WARNING_RATIO && !hasWarned.current) {
+          hasWarned.current = true;
+          toast({
+            title: "Хранилище почти заполнено",
+            description: `Занято ${formatBytes(next.usage)} из ${formatBytes(next.quota)}. Сохраните резервную копию и удалите ненужные данные.`,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error("Failed to estimate storage usage:", error);
+      }
+    };
+
+    refresh();
+    const unsubscribe = subscribeToStorage((event) => {
+      if (event.type === 'saved') {
+        isFailing.current = false;
+      } else if (!isFailing.current) {
+        isFailing.current = true;
+        toast({
+          title: "Данные не сохранены",
+          description: "Не хватает места в хранилище браузера. Сохраните резервную копию и удалите ненужные данные.",
+          variant: "destructive",
+        });
+      }
+      if (!timeout) timeout = setTimeout(refresh, REFRESH_DELAY);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [toast]);
+
+  if (!usage) return null;
+
+  const ratio = usage.quota > 0 ? usage.usage / usage.quota : 0;
+  const isWarning = ratio >= STORAGE_WARNING_RATIO;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("flex items-center gap-1 h-10 px-2", isWarning && "border-destructive text-destructive")}
+          title="Хранилище"
+        >
+          <HardDrive className="h-4 w-4" />
+          <span className="text-xs font-mono">{Math.round(ratio * 100)}%</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-2">
+        <p className="text-sm font-medium">Хранилище: {BACKEND_LABELS[usage.backend]}</p>
+        <Progress value={Math.min(100, ratio * 100)} className={cn(isWarning && "[&>div]:bg-destructive")} />
+        <p className="text-xs text-muted-foreground">
+          Занято {formatBytes(usage.usage)} из {formatBytes(usage.quota)}
+        </p>
+        {isWarning && (
+          <p className="text-xs text-destructive">
+            Место почти закончилось. Сохраните резервную копию и удалите ненужные данные.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
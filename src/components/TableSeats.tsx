@@ -0,0 +1,66 @@
+import { cn } from "@/lib/utils";
+import { POSITIONS, TableSpot, getFoldedPositions, getSpotBets } from "@/lib/tableSpots";
+
+interface TableSeatsProps {
+  spot: TableSpot;
+}
+
+const SEAT_COUNT = POSITIONS.length;
+
+// Point on the table oval in percent; the angle goes clockwise from the bottom.
+const getPoint = (seat: number, radius: number, shift = 0) => {
+  const angle = ((90 + seat * 360 / SEAT_COUNT + shift) * Math.PI) / 180;
+  return { left: `${50 + radius * Math.cos(angle)}%`, top: `${50 + radius * Math.sin(angle)}%` };
+};
+
+// Seats of a spot around the table, the hero at the bottom: stacks, dealer button and chips in front.
+export const TableSeats = ({ spot }: TableSeatsProps) => {
+  const bets = getSpotBets(spot);
+  const folded = getFoldedPositions(spot);
+  const heroIndex = POSITIONS.indexOf(spot.hero);
+
+  return (
+    <>
+      {POSITIONS.map((position, index) => {
+        const seat = (index - heroIndex + SEAT_COUNT) % SEAT_COUNT;
+        const bet = bets[position] || 0;
+        const isHero = position === spot.hero;
+        return (
+          <div key={position}>
+            <div
+              className={cn(
+                "absolute -translate-x-1/2 -translate-y-1/2 rounded-lg border-2 px-2 py-1 text-center shadow-lg",
+                "bg-gray-900 text-white text-[10px] sm:text-xs leading-tight",
+                isHero ? "border-primary" : "border-gray-700",
+                folded.includes(position) && "opacity-40"
+              )}
+              style={getPoint(seat, 50)}
+            >
+              <div className="font-bold">{isHero ? `Вы • ${position}` : position}</div>
+              <div className="font-mono text-white/70">{Number((spot.stack - bet).toFixed(1))}bb</div>
+            </div>
+
+            {position === 'BTN' && (
+              <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-white text-gray-900 border border-gray-400 text-[10px] font-bold flex items-center justify-center shadow"
+                style={getPoint(seat, 36, 24)}
+              >
+                D
+              </div>
+            )}
+
+            {bet > 0 && (
+              <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 flex items-center gap-1 text-[10px] sm:text-xs font-mono text-white"
+                style={getPoint(seat, 34)}
+              >
+                <span className="w-3 h-3 rounded-full bg-yellow-400 border-2 border-dashed border-yellow-700" />
+                {bet}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
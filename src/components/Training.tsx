@@ -1,8 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Play, Trash2 } from "lucide-react";
+import { Play, Trash2, Spade, Flame, LineChart, RotateCcw } from "lucide-react";
 import { CreateTrainingDialog } from "./CreateTrainingDialog";
+import { CardSettingsDialog } from "./CardSettingsDialog";
+import { LeakStatsDialog } from "./LeakStatsDialog";
+import { ProgressDashboard } from "./ProgressDashboard";
 import { cn } from "@/lib/utils";
 import {
   Table,
@@ -13,6 +16,13 @@ import {
   TableCell,
 } from "@/components/ui/table";
 import { TrainingSession } from "./TrainingSession";
+import { StoredAnswer, StoredSessionProgress, StoredTraining, loadCollection, saveCollection, updateCollection } from "@/lib/persistence";
+import { useRangeContext } from "@/contexts/RangeContext";
+import { countDueToday } from "@/lib/spacedRepetition";
+import { ANSWER_MODE_LABELS, AnswerMode } from "@/lib/answerGrading";
+import { getSessionAnswers } from "@/lib/trainingAnswers";
+import { clearSessionProgress, loadAllSessionProgress } from "@/lib/sessionProgress";
+import { DecisionTimesCard } from "./DecisionTimesCard";
 
 // --- Original Training Component ---
 
@@ -20,40 +30,63 @@ interface TrainingProps {
   isMobileMode?: boolean;
 }
 
+const TYPE_LABELS: Record<string, string> = {
+  'classic': 'Классическая',
+  'border-repeat': 'Повторение границ',
+  'spaced-repetition': 'Интервальное повторение',
+  'scenario': 'Ситуации за столом',
+  'random-spots': 'Случайные споты',
+};
+
+const TYPE_TITLES: Record<string, string> = {
+  'classic': 'Классическая тренировка',
+  'border-repeat': 'Тренировка повторения границ',
+  'spaced-repetition': 'Интервальное повторение',
+  'scenario': 'Тренировка по ситуациям за столом',
+  'random-spots': 'Тренировка на случайных спотах',
+};
+
+const SUBTYPE_LABELS: Record<string, string> = {
+  'all-hands': 'Все руки',
+  'border-check': 'Проверка границ',
+  'folders': 'Из папок',
+  'chart': 'Из чарта',
+};
+
 interface SessionStat {
   trainingId: string;
   timestamp: number;
   duration: number;
   totalQuestions: number;
   correctAnswers: number;
+  score?: number; // Missing in sessions saved before partial answers were scored
+  answers?: StoredAnswer[];
 }
 
 export const Training = ({ isMobileMode = false }: TrainingProps) => {
-  const [trainings, setTrainings] = useState(() => {
-    const saved = localStorage.getItem('training-sessions');
-    try {
-      const parsed = saved ? JSON.parse(saved) : [];
-      return Array.isArray(parsed) ? parsed : [];
-    } catch (e) {
-      console.error("Failed to parse training sessions from localStorage", e);
-      return [];
-    }
-  });
+  const [trainings, setTrainings] = useState(() => loadCollection('trainings', []));
   const [selectedTraining, setSelectedTraining] = useState<string | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showCardSettings, setShowCardSettings] = useState(false);
+  const [showLeakStats, setShowLeakStats] = useState(false);
   const [activeTraining, setActiveTraining] = useState<any>(null);
+  const [activeProgress, setActiveProgress] = useState<StoredSessionProgress | null>(null);
+  // Unfinished sessions by training id, read again whenever a session is left
+  const [sessionProgress, setSessionProgress] = useState(loadAllSessionProgress);
   const [detailedStats, setDetailedStats] = useState<SessionStat[]>([]);
   const [statsVersion, setStatsVersion] = useState(0);
+  const { folders } = useRangeContext();
+  const sessionAnswers = useMemo(() => getSessionAnswers(detailedStats), [detailedStats]);
 
-  // Save trainings to localStorage when they change
+  // Save trainings to storage when they change
   useEffect(() => {
-    localStorage.setItem('training-sessions', JSON.stringify(trainings));
+    saveCollection('trainings', trainings);
   }, [trainings]);
 
   // Fetch detailed stats when a training is selected or when stats are updated
   useEffect(() => {
     if (selectedTraining) {
-      const allStats = JSON.parse(localStorage.getItem('training-statistics') || '[]') as SessionStat[];
+      const allStats = loadCollection('statistics', []) as SessionStat[];
       const trainingStats = allStats
         .filter((stat) => stat.trainingId === selectedTraining)
         .sort((a, b) => b.timestamp - a.timestamp); // Sort by most recent
@@ -66,14 +99,14 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
 
   // Calculate and update training statistics
   const getTrainingStats = (trainingId: string) => {
-    const savedStats = JSON.parse(localStorage.getItem('training-statistics') || '[]');
+    const savedStats = loadCollection('statistics', []);
     const trainingStats = savedStats.filter((stat: any) => stat.trainingId === trainingId);
     
     if (trainingStats.length === 0) return null;
     
     const totalSessions = trainingStats.length;
     const totalHands = trainingStats.reduce((sum: number, stat: any) => sum + stat.totalQuestions, 0);
-    const totalCorrect = trainingStats.reduce((sum: number, stat: any) => sum + stat.correctAnswers, 0);
+    const totalCorrect = trainingStats.reduce((sum: number, stat: any) => sum + (stat.score ?? stat.correctAnswers), 0);
     const totalTime = trainingStats.reduce((sum: number, stat: any) => sum + stat.duration, 0);
     
     const avgAccuracy = totalHands > 0 ? (totalCorrect / totalHands) * 100 : 0;
@@ -89,6 +122,12 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
     };
   };
 
+  // Hands of a spaced repetition training to review by the end of the day, and the ones not seen yet
+  const getDueToday = (training: StoredTraining) => {
+    const ranges = folders.flatMap(folder => folder.ranges).filter(range => training.ranges.includes(range.id));
+    return countDueToday(ranges, loadCollection('handMemory', []), Date.now());
+  };
+
   const handleCreateTraining = (training: any) => {
     setTrainings(prev => [...prev, training]);
   };
@@ -99,21 +138,26 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
       setSelectedTraining(null);
     }
     // Also delete associated stats
-    const allStats = JSON.parse(localStorage.getItem('training-statistics') || '[]');
-    const remainingStats = allStats.filter((stat: SessionStat) => stat.trainingId !== trainingId);
-    localStorage.setItem('training-statistics', JSON.stringify(remainingStats));
+    updateCollection('statistics', stats => stats.filter(stat => stat.trainingId !== trainingId));
+    clearSessionProgress(trainingId);
+    setSessionProgress(loadAllSessionProgress());
     setStatsVersion(v => v + 1); // force refresh
   };
 
-  const handleStartTraining = (trainingId: string) => {
+  // Resumes the unfinished session of the training, or starts a new one in its place
+  const handleStartTraining = (trainingId: string, resume = false) => {
     const training = trainings.find(t => t.id === trainingId);
     if (training) {
+      if (!resume) clearSessionProgress(trainingId);
+      setActiveProgress(resume ? sessionProgress[trainingId] || null : null);
       setActiveTraining(training);
     }
   };
 
   const handleTrainingComplete = () => {
     setActiveTraining(null);
+    setActiveProgress(null);
+    setSessionProgress(loadAllSessionProgress());
     // Increment statsVersion to force a re-fetch of statistics
     setStatsVersion(v => v + 1);
   };
@@ -141,6 +185,7 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
     return (
       <TrainingSession 
         training={activeTraining} 
+        progress={activeProgress}
         onStop={handleTrainingComplete} 
       />
     );
@@ -157,8 +202,19 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
           "bg-card p-4 space-y-4",
           isMobileMode ? "order-2" : "w-80 border-r"
         )}>
-          <div>
+          <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold">Тренировки</h2>
+            <div className="flex items-center">
+              <Button size="sm" variant="ghost" title="Прогресс" onClick={() => setSelectedTraining(null)}>
+                <LineChart className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Утечки" onClick={() => setShowLeakStats(true)}>
+                <Flame className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Вид карт" onClick={() => setShowCardSettings(true)}>
+                <Spade className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
           
           <div className={cn(
@@ -175,6 +231,7 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
             ) : (
               trainings.map((training) => {
                 const stats = getTrainingStats(training.id);
+                const dueToday = training.type === 'spaced-repetition' ? getDueToday(training) : null;
                 return (
                   <Card 
                     key={training.id} 
@@ -187,9 +244,22 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                       <div className="flex-1">
                         <h4 className="font-medium">{training.name}</h4>
                         <div className="text-xs text-muted-foreground mt-1">
-                          {training.type === 'classic' ? 'Классическая' : 'Повторение границ'}
-                          {training.subtype && ` • ${training.subtype === 'all-hands' ? 'Все руки' : 'Проверка границ'}`}
+                          {TYPE_LABELS[training.type as string]}
+                          {training.subtype && ` • ${SUBTYPE_LABELS[training.subtype as string]}`}
+                          {training.boardTextures && ' • С флопом'}
+                          {training.answerMode && training.answerMode !== 'action' && ` • ${ANSWER_MODE_LABELS[training.answerMode as AnswerMode]}`}
+                          {training.timeLimit && ` • ${training.timeLimit} с на ответ`}
                         </div>
+                        {dueToday && (
+                          <div className="text-xs text-primary mt-1">
+                            К повторению сегодня: {dueToday.due} • Новых рук: {dueToday.fresh}
+                          </div>
+                        )}
+                        {sessionProgress[training.id] && (
+                          <div className="text-xs text-primary mt-1">
+                            Не завершена: {sessionProgress[training.id].index}/{sessionProgress[training.id].total}
+                          </div>
+                        )}
                         {stats && (
                           <div className="text-xs text-muted-foreground mt-1">
                             Точность: {stats.accuracy}% • Сессий: {stats.sessions}
@@ -238,6 +308,7 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                   if (!training) return null;
                   
                   const stats = getTrainingStats(training.id);
+                  const progress = sessionProgress[training.id];
                   
                   return (
                     <div className="space-y-6">
@@ -250,8 +321,11 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                           "text-muted-foreground",
                           isMobileMode && "text-sm"
                         )}>
-                          {training.type === 'classic' ? 'Классическая тренировка' : 'Тренировка повторения границ'}
-                          {training.subtype && ` • ${training.subtype === 'all-hands' ? 'Все руки' : 'Проверка границ'}`}
+                          {TYPE_TITLES[training.type as string]}
+                          {training.subtype && ` • ${SUBTYPE_LABELS[training.subtype as string]}`}
+                          {training.boardTextures && ' • С флопом'}
+                          {training.answerMode && training.answerMode !== 'action' && ` • ${ANSWER_MODE_LABELS[training.answerMode as AnswerMode]}`}
+                          {training.timeLimit && ` • ${training.timeLimit} с на ответ`}
                         </p>
                       </div>
 
@@ -287,17 +361,45 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                         </Card>
                       )}
 
+                      {sessionAnswers.length > 0 && <DecisionTimesCard answers={sessionAnswers} />}
+
                       {/* Start Training Button */}
-                      <div className="text-center">
-                        <Button 
-                          size="lg" 
-                          variant="poker"
-                          onClick={() => handleStartTraining(training.id)}
-                        >
-                          <Play className="h-5 w-5 mr-2" />
-                          Запустить тренировку
-                        </Button>
-                      </div>
+                      {progress ? (
+                        <div className="text-center space-y-2">
+                          <div className="flex justify-center gap-2 flex-wrap">
+                            <Button
+                              size="lg"
+                              variant="poker"
+                              onClick={() => handleStartTraining(training.id, true)}
+                            >
+                              <Play className="h-5 w-5 mr-2" />
+                              Продолжить ({progress.index}/{progress.total})
+                            </Button>
+                            <Button
+                              size="lg"
+                              variant="outline"
+                              onClick={() => handleStartTraining(training.id)}
+                            >
+                              <RotateCcw className="h-5 w-5 mr-2" />
+                              Начать заново
+                            </Button>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            Незавершённая сессия от {formatSessionDate(progress.savedAt)}, время {formatSessionDuration(progress.elapsed)}
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="text-center">
+                          <Button 
+                            size="lg" 
+                            variant="poker"
+                            onClick={() => handleStartTraining(training.id)}
+                          >
+                            <Play className="h-5 w-5 mr-2" />
+                            Запустить тренировку
+                          </Button>
+                        </div>
+                      )}
 
                       {/* Detailed Session History (PC only) */}
                       {!isMobileMode && (
@@ -323,7 +425,7 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                                       <TableCell>{formatSessionDate(session.timestamp)}</TableCell>
                                       <TableCell>{formatSessionDuration(session.duration)}</TableCell>
                                       <TableCell className="text-right">
-                                        {calculateSessionAccuracy(session.correctAnswers, session.totalQuestions)}%
+                                        {calculateSessionAccuracy(session.score ?? session.correctAnswers, session.totalQuestions)}%
                                       </TableCell>
                                     </TableRow>
                                   ))}
@@ -342,12 +444,7 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
                 })()}
               </div>
             ) : (
-              <div className="flex items-center justify-center h-full">
-                <div className="text-center text-muted-foreground">
-                  <h2 className="text-xl font-semibold">Тренировка ренжей</h2>
-                  <p>Выберите тренировку из списка слева или создайте новую.</p>
-                </div>
-              </div>
+              <ProgressDashboard trainings={trainings} typeLabels={TYPE_LABELS} isMobileMode={isMobileMode} />
             )}
           </div>
         </div>
@@ -358,6 +455,9 @@ export const Training = ({ isMobileMode = false }: TrainingProps) => {
         onOpenChange={setShowCreateDialog}
         onCreateTraining={handleCreateTraining}
       />
+
+      <CardSettingsDialog open={showCardSettings} onOpenChange={setShowCardSettings} />
+      <LeakStatsDialog open={showLeakStats} onOpenChange={setShowLeakStats} />
     </>
   );
 };
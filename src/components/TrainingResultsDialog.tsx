@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/button";
     } from "@/components/ui/dialog";
     import { Card } from "@/components/ui/card";
     import { Trophy, Clock, Target, CheckCircle, Calendar } from "lucide-react";
+    import { formatSeconds } from "@/lib/trainingAnswers";
 
     interface TrainingResultsDialogProps {
       open: boolean;
@@ -20,7 +21,10 @@ import { Button } from "@/components/ui/button";
         accuracy: number;
         totalQuestions: number;
         correctAnswers: number;
+        partialAnswers?: number; // Answers with an action the hand takes less often
+        averageTime?: number; // ms per answer, 0 when answers were not timed
         timestamp: number;
+        ranges?: { name: string; totalQuestions: number; correctAnswers: number; score: number }[]; // Answers per range
       };
     }
 
@@ -102,20 +106,57 @@ import { Button } from "@/components/ui/button";
                 
                 <Card className="p-3">
                   <div className="text-lg font-bold text-red-600">
-                    {results.totalQuestions - results.correctAnswers}
+                    {results.totalQuestions - results.correctAnswers - (results.partialAnswers || 0)}
                   </div>
                   <div className="text-sm text-muted-foreground">Ошибок</div>
                 </Card>
               </div>
 
+              {!!results.partialAnswers && (
+                <Card className="p-3 text-center">
+                  <div className="text-lg font-bold text-yellow-600">
+                    {results.partialAnswers}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Частично верно</div>
+                </Card>
+              )}
+
               <Card className="p-3 text-center">
                 <div className="text-lg font-bold text-primary">
                   {results.totalQuestions}
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  {results.type === 'classic' ? 'Всего рук' : 'Всего ренжей'}
+                  {results.type !== 'border-repeat' ? 'Всего рук' : 'Всего ренжей'}
                 </div>
               </Card>
+
+              {!!results.averageTime && (
+                <Card className="p-3 text-center">
+                  <div className="text-lg font-bold text-primary">
+                    {formatSeconds(results.averageTime)}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Среднее время решения</div>
+                </Card>
+              )}
+
+              {results.ranges && results.ranges.length > 1 && (
+                <Card className="p-3 space-y-2">
+                  <div className="text-sm font-medium">Точность по ренжам</div>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {results.ranges.map(range => {
+                      const rangeAccuracy = (range.score / range.totalQuestions) * 100;
+                      return (
+                        <div key={range.name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">{range.name}</span>
+                          <span className={`font-mono shrink-0 ${getPerformanceLevel(rangeAccuracy).color}`}>
+                            {range.correctAnswers}/{range.totalQuestions} • {rangeAccuracy.toFixed(0)}%
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </Card>
+              )}
             </div>
 
             <DialogFooter className="mt-6">
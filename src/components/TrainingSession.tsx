@@ -1,19 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { PokerMatrix } from "./PokerMatrix";
 import { PokerCard } from "./PokerCard";
 import { TrainingResultsDialog } from "./TrainingResultsDialog";
-import { X, Play } from "lucide-react";
+import { TableSeats } from "./TableSeats";
+import { FrequencyEditor } from "./FrequencyEditor";
+import { CountdownRing } from "./CountdownRing";
+import { X, Play, Pause } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useRangeContext, ActionButton } from "@/contexts/RangeContext";
+import { useRangeContext, ActionButton, SimpleActionButton } from "@/contexts/RangeContext";
 import { useToast } from "@/hooks/use-toast";
+import { TOTAL_COMBOS, dealRandomHand } from "@/lib/poker";
+import { hasComboOverrides, pickRandomCombo } from "@/lib/rangeCombos";
+import {
+  getComboStrategy,
+  getHandStrategy,
+  getMixStrategy,
+  getStrategyDominantAction,
+  resolveStrategy,
+} from "@/lib/rangeStrategy";
+import {
+  AnswerGrade,
+  AnswerMode,
+  getRngBuckets,
+  gradeAction,
+  gradeFrequencies,
+  gradeRngAction,
+  rollRng,
+} from "@/lib/answerGrading";
+import { StoredQuestion, StoredSessionHand, StoredSessionProgress, loadCollection, updateCollection } from "@/lib/persistence";
+import { DEFAULT_BORDER_DISTANCE, DEFAULT_BORDER_SAMPLE_SIZE, sampleBorderHands } from "@/lib/rangeBorders";
+import { CORRECT_QUALITY, PARTIAL_QUALITY, WRONG_QUALITY, buildSpacedSession, getMemoryId, reviewHand } from "@/lib/spacedRepetition";
+import { dealRandomFlop, filterFlops } from "@/lib/boardTextures";
+import { getDecisionTimes } from "@/lib/trainingAnswers";
+import { DEFAULT_SPOT_HANDS, HANDS_PER_SPOT, TableSpot, describeSpot, getSpotSourceRanges } from "@/lib/tableSpots";
+import { CELL_MISTAKE_CLASSES, CELL_MISTAKE_LABELS, CellMistake, MatrixScore, scoreMatrix } from "@/lib/matrixScoring";
+import { clearSessionProgress, saveSessionProgress } from "@/lib/sessionProgress";
 
 interface TrainingSessionProps {
   training: any;
+  progress?: StoredSessionProgress | null; // Unfinished session to resume
   onStop: () => void;
 }
 
+const DEFAULT_RANDOM_SPOT_QUESTIONS = 30;
+
 const allHands = [
   'AA', 'AKs', 'AQs', 'AJs', 'ATs', 'A9s', 'A8s', 'A7s', 'A6s', 'A5s', 'A4s', 'A3s', 'A2s',
   'AKo', 'KK', 'KQs', 'KJs', 'KTs', 'K9s', 'K8s', 'K7s', 'K6s', 'K5s', 'K4s', 'K3s', 'K2s',
@@ -54,31 +86,51 @@ const getActionButtonStyle = (button: ActionButton, allButtons: ActionButton[])
     return {};
 };
 
-export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
+const getAccuracy = (hands: StoredSessionHand[]) =>
+  hands.length > 0 ? (hands.reduce((sum, h) => sum + h.score, 0) / hands.length) * 100 : 0;
+
+export const TrainingSession = ({ training, progress, onStop }: TrainingSessionProps) => {
   const { folders, actionButtons } = useRangeContext();
   const { toast } = useToast();
   
-  const [currentHandIndex, setCurrentHandIndex] = useState(0);
-  const [currentRangeIndex, setCurrentRangeIndex] = useState(0);
-  const [sessionStats, setSessionStats] = useState({
-    startTime: Date.now(),
-    hands: [] as Array<{hand: string, correct: boolean, userAction?: string, correctAction?: string}>,
-    accuracy: 0
-  });
-  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
+  const [currentHandIndex, setCurrentHandIndex] = useState(progress?.index ?? 0);
+  // A border repeat goes through the ranges, the saved index counts them instead of questions
+  const [currentRangeIndex, setCurrentRangeIndex] = useState(training.type === 'border-repeat' ? progress?.index ?? 0 : 0);
+  const [sessionStats, setSessionStats] = useState(() => ({
+    hands: progress?.hands ?? [] as StoredSessionHand[],
+    accuracy: getAccuracy(progress?.hands ?? [])
+  }));
+  // Time of play: what the resumed session already had plus the current run, pauses excluded
+  const [runStartedAt, setRunStartedAt] = useState(() => Date.now());
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<'correct' | 'partial' | 'incorrect' | null>(null);
+  const [frequencyAnswer, setFrequencyAnswer] = useState<Record<string, number>>({});
+  const [questionStartedAt, setQuestionStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
   const [showCorrectRange, setShowCorrectRange] = useState(false);
   const [userMatrix, setUserMatrix] = useState<Record<string, string>>({});
+  const [matrixScore, setMatrixScore] = useState<MatrixScore | null>(null);
   const [isChecked, setIsChecked] = useState(false);
   const [canProceed, setCanProceed] = useState(false);
   const [activeAction, setActiveAction] = useState<string>('fold');
   const [showResultsDialog, setShowResultsDialog] = useState(false);
   const [trainingResults, setTrainingResults] = useState<any>(null);
 
-  // Get current training data
+  // Get current training data. Random spots take the ranges their folders or chart hold
+  // now; trainings created before the source was saved keep the ranges of that time.
+  const getTrainingRangeIds = (): string[] => {
+    if (training.type === 'random-spots' && training.folderIds) {
+      return getSpotSourceRanges(folders, [], 'folders', training.folderIds);
+    }
+    if (training.type === 'random-spots' && training.chartId) {
+      return getSpotSourceRanges(folders, loadCollection('charts', []), 'chart', [training.chartId]);
+    }
+    return training.ranges || [];
+  };
+
   const getTrainingRanges = () => {
     const ranges = [];
-    if (!training.ranges) return [];
-    for (const rangeId of training.ranges) {
+    for (const rangeId of getTrainingRangeIds()) {
       for (const folder of folders) {
         const range = folder.ranges.find(r => r.id === rangeId);
         if (range) {
@@ -90,7 +142,8 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
   };
 
   const trainingRanges = getTrainingRanges();
-  const currentRange = trainingRanges[currentRangeIndex];
+  // Border repeat goes through the ranges, the other types ask single hands
+  const isHandTraining = training.type !== 'border-repeat';
 
   // Generate hands for classic training
   const generateHands = () => {
@@ -98,56 +151,263 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
       if (training.subtype === 'all-hands') {
         return [...allHands].sort(() => Math.random() - 0.5);
       } else if (training.subtype === 'border-check') {
-        // Generate hands near range borders (2 cells away)
-        const borderHands = [];
-        // Implementation for border check logic would go here
-        return allHands.sort(() => Math.random() - 0.5).slice(0, 20);
+        // Hands near the range borders, the closest ones asked most often
+        if (!trainingRanges[0]) return [];
+        return sampleBorderHands(
+          trainingRanges[0],
+          training.borderDistance ?? DEFAULT_BORDER_DISTANCE,
+          training.borderSampleSize ?? DEFAULT_BORDER_SAMPLE_SIZE
+        );
       }
     }
     return [];
   };
 
-  const [hands] = useState(generateHands());
-  const currentHand = hands[currentHandIndex];
+  const generateQuestions = (): StoredQuestion[] => {
+    if (training.type === 'spaced-repetition') {
+      return buildSpacedSession(trainingRanges, loadCollection('handMemory', []), Date.now());
+    }
+    if (training.type === 'random-spots') {
+      // Every question deals a spot and a hand at random, as they come in play
+      if (trainingRanges.length === 0) return [];
+      return Array.from({ length: training.questionCount ?? DEFAULT_RANDOM_SPOT_QUESTIONS }, () => ({
+        rangeId: trainingRanges[Math.floor(Math.random() * trainingRanges.length)].id,
+        hand: dealRandomHand(),
+      }));
+    }
+    if (training.type === 'scenario') {
+      const spots: TableSpot[] = training.spots || [];
+      return spots
+        .flatMap(spot => {
+          const range = trainingRanges.find(item => item.id === spot.rangeId);
+          if (!range) return [];
+          if ((training.spotHands ?? DEFAULT_SPOT_HANDS) === 'all') {
+            // Different hands as they are dealt
+            const hands = new Set<string>();
+            while (hands.size < HANDS_PER_SPOT) hands.add(dealRandomHand());
+            return [...hands].map(hand => ({ rangeId: range.id, hand, spot }));
+          }
+          const hands = sampleBorderHands(range, DEFAULT_BORDER_DISTANCE, HANDS_PER_SPOT);
+          return hands.map(hand => ({ rangeId: range.id, hand, spot }));
+        })
+        .sort(() => Math.random() - 0.5);
+    }
+    const rangeId = trainingRanges[0]?.id;
+    return rangeId ? generateHands().map(hand => ({ rangeId, hand })) : [];
+  };
+
+  const [questions] = useState(() => progress?.questions ?? generateQuestions());
+  const currentQuestion = questions[currentHandIndex];
+  const currentRange = (currentQuestion && trainingRanges.find(range => range.id === currentQuestion.rangeId))
+    || trainingRanges[currentRangeIndex];
+  const currentHand = currentQuestion?.hand;
+  const currentSpot = currentQuestion?.spot;
+  // Concrete combo dealt for the current hand and shown on the table; it decides the answer when the range is suit-specific
+  const currentCombo = useMemo(() => (currentHand ? pickRandomCombo(currentHand) : null), [currentHand]);
+  const isSuitSpecificHand = !!currentRange && !!currentHand && hasComboOverrides(currentRange, currentHand);
+  const currentHandLabel = isSuitSpecificHand ? `${currentHand} (${currentCombo})` : currentHand;
+  // Flop of the chosen textures dealt around the combo when the training shows a board
+  const boardFlops = useMemo(() => (training.boardTextures ? filterFlops(training.boardTextures) : []), [training.boardTextures]);
+  const currentBoard = useMemo(
+    () => (currentCombo && boardFlops.length > 0 ? dealRandomFlop(boardFlops, [currentCombo.slice(0, 2), currentCombo.slice(2, 4)]) : null),
+    [currentCombo, boardFlops]
+  );
+
+  // Frequencies of every action for the hand (of the dealt combo when suit-specific)
+  const getCorrectStrategy = (hand: string) => {
+    if (!currentRange) return { fold: 1 };
+    if (hand === currentHand && currentCombo) {
+      return getComboStrategy(currentRange, currentCombo);
+    }
+    return getHandStrategy(currentRange, hand);
+  };
 
-  // Get correct action for current hand
-  const getCorrectAction = (hand: string) => {
-    if (!currentRange) return 'fold';
-    return currentRange.hands[hand] || 'fold';
+  const answerMode: AnswerMode = training.answerMode ?? 'action';
+  // Seconds per question of a timed training
+  const timeLimitMs = training.timeLimit ? training.timeLimit * 1000 : 0;
+  // Weighted buttons are answered by their component actions when rolling or entering frequencies
+  const answerButtons = answerMode === 'action'
+    ? actionButtons
+    : actionButtons.filter((button): button is SimpleActionButton => button.type !== 'weighted');
+  // Roll of the RNG mode, one per dealt combo
+  const currentRoll = useMemo(() => (currentCombo ? rollRng() : 0), [currentCombo]);
+
+  const gradeAnswer = (action: string): AnswerGrade => {
+    const strategy = getCorrectStrategy(currentHand);
+    return answerMode === 'rng'
+      ? gradeRngAction(strategy, actionButtons, currentRoll, action)
+      : gradeAction(strategy, actionButtons, action);
   };
 
+  // The buttons highlighted after a mistake
+  const isCorrectAction = (action: string) => gradeAnswer(action).verdict === 'correct';
+
+  const getActionName = (actionId: string) =>
+    actionId === 'fold' ? 'Fold' : actionButtons.find(button => button.id === actionId)?.name || actionId;
+
+  // Frequencies of the component actions, shown after an answer in the RNG and frequency modes
+  const formatCorrectStrategy = () =>
+    Object.entries(resolveStrategy(getCorrectStrategy(currentHand), actionButtons))
+      .filter(([, fraction]) => fraction > 0)
+      .map(([actionId, fraction]) => `${getActionName(actionId)} ${Math.round(fraction * 100)}%`)
+      .join(' • ');
+
   // Handle classic training answer
   const handleClassicAnswer = (action: string) => {
     if (feedback) return; // Already answered
+    recordClassicAnswer(gradeAnswer(action), action);
+  };
+
+  const handleFrequencyAnswer = () => {
+    if (feedback) return;
+    recordClassicAnswer(gradeFrequencies(getCorrectStrategy(currentHand), actionButtons, getMixStrategy(frequencyAnswer)), 'mix');
+  };
+
+  // A correct answer moves on by itself after a moment, unless the session is paused or left.
+  // The latest render goes on, it already holds the answer.
+  const advanceTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const scheduleAdvance = () => {
+    clearTimeout(advanceTimerRef.current);
+    advanceTimerRef.current = setTimeout(() => proceedToNextRef.current?.(), 3000);
+  };
+  const cancelAdvance = () => clearTimeout(advanceTimerRef.current);
+  useEffect(() => cancelAdvance, []);
 
-    const correctAction = getCorrectAction(currentHand);
-    const isCorrect = action === correctAction;
+  const recordClassicAnswer = (grade: AnswerGrade, action: string) => {
+    const time = Math.min(Date.now() - questionStartedAt, timeLimitMs || Infinity);
+    const correctAction = getStrategyDominantAction(getCorrectStrategy(currentHand));
+    const isCorrect = grade.verdict === 'correct';
     
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
+    setFeedback(isCorrect ? 'correct' : grade.verdict === 'partial' ? 'partial' : 'incorrect');
+
+    if (training.type === 'spaced-repetition') {
+      const memoryId = getMemoryId(currentRange.id, currentHand);
+      updateCollection('handMemory', memories => {
+        const reviewed = reviewHand(
+          memories.find(memory => memory.id === memoryId),
+          currentRange.id,
+          currentHand,
+          isCorrect ? CORRECT_QUALITY : grade.verdict === 'partial' ? PARTIAL_QUALITY : WRONG_QUALITY,
+          Date.now()
+        );
+        return memories.some(memory => memory.id === memoryId)
+          ? memories.map(memory => (memory.id === memoryId ? reviewed : memory))
+          : [...memories, reviewed];
+      });
+    }
     
     const newHandStat = {
       hand: currentHand,
       correct: isCorrect,
+      score: grade.score,
       userAction: action,
-      correctAction
+      correctAction,
+      rangeId: currentRange.id,
+      time
     };
     
     setSessionStats(prev => {
       const newHands = [...prev.hands, newHandStat];
-      const correctCount = newHands.filter(h => h.correct).length;
-      const accuracy = (correctCount / newHands.length) * 100;
-      return { ...prev, hands: newHands, accuracy };
+      return { ...prev, hands: newHands, accuracy: getAccuracy(newHands) };
     });
 
     if (isCorrect) {
-      setTimeout(() => {
-        proceedToNext();
-      }, 3000);
+      scheduleAdvance();
     } else {
       setShowCorrectRange(true);
     }
   };
 
+  // Runs the clock of a timed question; running out of time is a wrong answer
+  const handleTimeoutRef = useRef<() => void>();
+  handleTimeoutRef.current = () => recordClassicAnswer({ verdict: 'wrong', score: 0 }, 'timeout');
+  useEffect(() => {
+    if (!timeLimitMs || !isHandTraining || questions.length === 0 || feedback || showResultsDialog || pausedAt !== null) return;
+    const timer = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time - questionStartedAt >= timeLimitMs) {
+        clearInterval(timer);
+        handleTimeoutRef.current?.();
+      }
+    }, 100);
+    return () => clearInterval(timer);
+  }, [timeLimitMs, isHandTraining, questions.length, feedback, showResultsDialog, questionStartedAt, pausedAt]);
+  const remainingTime = Math.max(0, Math.min(timeLimitMs, timeLimitMs - (now - questionStartedAt)));
+
+  const getElapsed = () => (progress?.elapsed ?? 0) + (pausedAt ?? Date.now()) - runStartedAt;
+  const totalQuestions = isHandTraining ? questions.length : trainingRanges.length;
+
+  // Keeps the progress to resume the session later. A session left before its first
+  // answer keeps nothing new, and nothing is left to resume once the last question is
+  // answered: the session is then finished from the results.
+  const saveProgressRef = useRef<() => void>();
+  // Warns once until a save succeeds again
+  const isSaveFailingRef = useRef(false);
+  saveProgressRef.current = () => {
+    const isAnswered = sessionStats.hands.length > (progress?.hands.length ?? 0);
+    if (!isAnswered || showResultsDialog || sessionStats.hands.length >= totalQuestions) return;
+    const isSaved = saveSessionProgress({
+      trainingId: training.id,
+      questions,
+      index: sessionStats.hands.length,
+      total: totalQuestions,
+      hands: sessionStats.hands,
+      elapsed: getElapsed(),
+      savedAt: Date.now(),
+    });
+    if (isSaved) {
+      isSaveFailingRef.current = false;
+    } else if (!isSaveFailingRef.current) {
+      isSaveFailingRef.current = true;
+      toast({
+        title: "Прогресс не сохранён",
+        description: "Не хватает места в хранилище браузера. Тренировку можно продолжить, но вернуться к ней позже может не получиться.",
+        variant: "destructive",
+      });
+    }
+  };
+  useEffect(() => {
+    saveProgressRef.current?.();
+  }, [sessionStats.hands]);
+  // A closed or reloaded tab keeps the time played up to that moment
+  useEffect(() => {
+    const handleHide = () => saveProgressRef.current?.();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') handleHide();
+    };
+    window.addEventListener('pagehide', handleHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', handleHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const pauseSession = () => {
+    if (pausedAt !== null) return;
+    cancelAdvance();
+    saveProgressRef.current?.();
+    setPausedAt(Date.now());
+  };
+
+  // The clock and the time of the current question go on from where they stopped
+  const resumeSession = () => {
+    if (pausedAt === null) return;
+    const pause = Date.now() - pausedAt;
+    setRunStartedAt(prev => prev + pause);
+    setQuestionStartedAt(prev => prev + pause);
+    setPausedAt(null);
+    if (isHandTraining && feedback === 'correct') scheduleAdvance();
+  };
+
+  // Leaves the session to be resumed from the training list
+  const leaveSession = () => {
+    cancelAdvance();
+    saveProgressRef.current?.();
+    onStop();
+  };
+
   // Handle border repeat training
   const handleMatrixSelect = (hand: string) => {
     if (isChecked) return;
@@ -164,16 +424,13 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
   const checkBorderRepeat = () => {
     if (!currentRange) return;
     
-    const correctHands = currentRange.hands;
-    const isCorrect = Object.keys(correctHands).every(hand => 
-      userMatrix[hand] === correctHands[hand]
-    ) && Object.keys(userMatrix).every(hand => 
-      correctHands[hand] === userMatrix[hand]
-    );
+    const result = scoreMatrix(currentRange, userMatrix);
+    const isCorrect = result.isPerfect;
     
     setIsChecked(true);
     setCanProceed(true);
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
+    setMatrixScore(result);
+    setFeedback(isCorrect ? 'correct' : result.score > 0 ? 'partial' : 'incorrect');
     
     if (!isCorrect) {
       setShowCorrectRange(true);
@@ -182,22 +439,23 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
     const newRangeStat = {
       hand: currentRange.name,
       correct: isCorrect,
+      score: result.score,
       userAction: 'matrix',
-      correctAction: 'matrix'
+      correctAction: 'matrix',
+      rangeId: currentRange.id
     };
     
     setSessionStats(prev => {
       const newHands = [...prev.hands, newRangeStat];
-      const correctCount = newHands.filter(h => h.correct).length;
-      const accuracy = (correctCount / newHands.length) * 100;
-      return { ...prev, hands: newHands, accuracy };
+      return { ...prev, hands: newHands, accuracy: getAccuracy(newHands) };
     });
   };
 
   const proceedToNext = () => {
-    if (training.type === 'classic') {
-      if (currentHandIndex < hands.length - 1) {
+    if (isHandTraining) {
+      if (currentHandIndex < questions.length - 1) {
         setCurrentHandIndex(prev => prev + 1);
+        setQuestionStartedAt(Date.now());
       } else {
         finishTraining();
         return;
@@ -206,6 +464,7 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
       if (currentRangeIndex < trainingRanges.length - 1) {
         setCurrentRangeIndex(prev => prev + 1);
         setUserMatrix({});
+        setMatrixScore(null);
         setIsChecked(false);
         setCanProceed(false);
         setActiveAction('fold');
@@ -217,14 +476,33 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
     
     setFeedback(null);
     setShowCorrectRange(false);
+    setFrequencyAnswer({});
   };
 
+  const proceedToNextRef = useRef<() => void>();
+  proceedToNextRef.current = proceedToNext;
+
   const finishTraining = () => {
+    cancelAdvance();
     const finishTime = Date.now();
-    const duration = finishTime - sessionStats.startTime;
+    const duration = getElapsed();
+    clearSessionProgress(training.id);
     const correctAnswers = sessionStats.hands.filter(h => h.correct).length;
+    const partialAnswers = sessionStats.hands.filter(h => !h.correct && h.score > 0).length;
     const totalQuestions = sessionStats.hands.length;
-    const accuracy = totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0;
+    const score = sessionStats.hands.reduce((sum, h) => sum + h.score, 0);
+    const accuracy = totalQuestions > 0 ? (score / totalQuestions) * 100 : 0;
+    const answers = sessionStats.hands
+      .filter(h => h.time !== undefined && h.rangeId)
+      .map(h => ({
+        hand: h.hand,
+        rangeId: h.rangeId,
+        action: h.userAction,
+        correctAction: h.correctAction,
+        correct: h.correct,
+        score: h.score,
+        time: h.time,
+      }));
 
     // Only save stats if at least one question was answered
     if (totalQuestions > 0) {
@@ -234,13 +512,26 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
         duration: duration,
         totalQuestions: totalQuestions,
         correctAnswers: correctAnswers,
+        score: score,
+        answers: answers,
       };
       
-      const savedStats = JSON.parse(localStorage.getItem('training-statistics') || '[]');
-      savedStats.push(sessionDataToSave);
-      localStorage.setItem('training-statistics', JSON.stringify(savedStats));
+      updateCollection('statistics', stats => [...stats, sessionDataToSave]);
     }
     
+    // Accuracy of every range the session asked from
+    const rangeResults = trainingRanges
+      .map(range => {
+        const answers = sessionStats.hands.filter(h => h.rangeId === range.id);
+        return {
+          name: `${range.folderName} - ${range.name}`,
+          totalQuestions: answers.length,
+          correctAnswers: answers.filter(h => h.correct).length,
+          score: answers.reduce((sum, h) => sum + h.score, 0),
+        };
+      })
+      .filter(result => result.totalQuestions > 0);
+
     const resultsForDialog = {
       trainingName: training.name,
       type: training.type,
@@ -248,7 +539,10 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
       accuracy: accuracy,
       totalQuestions: totalQuestions,
       correctAnswers: correctAnswers,
+      partialAnswers: partialAnswers,
+      averageTime: getDecisionTimes(answers).average,
       timestamp: finishTime,
+      ranges: rangeResults,
     };
 
     setTrainingResults(resultsForDialog);
@@ -261,7 +555,7 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
   };
 
   const formatTime = () => {
-    const elapsed = Date.now() - sessionStats.startTime;
+    const elapsed = getElapsed();
     const minutes = Math.floor(elapsed / 60000);
     const seconds = Math.floor((elapsed % 60000) / 1000);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
@@ -278,6 +572,17 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
     );
   }
 
+  if (isHandTraining && questions.length === 0) {
+    return (
+      <div className="h-screen bg-background flex items-center justify-center">
+        <Card className="p-6 text-center">
+          <p className="text-lg text-muted-foreground">На сегодня все руки повторены</p>
+          <Button onClick={onStop} className="mt-4">Вернуться</Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen bg-background flex flex-col sm:flex-row">
       {/* Desktop sidebar with stats */}
@@ -288,7 +593,10 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
             <Button size="sm" variant="destructive" onClick={finishTraining}>
               Завершить
             </Button>
-            <Button size="sm" variant="outline" onClick={onStop}>
+            <Button size="sm" variant="outline" title="Пауза" onClick={pauseSession}>
+              <Pause className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" title="Отложить" onClick={leaveSession}>
               <X className="h-4 w-4" />
             </Button>
           </div>
@@ -308,7 +616,7 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
           <div className="text-center">
             <div className="text-2xl font-bold text-primary">{sessionStats.hands.length}</div>
             <div className="text-sm text-muted-foreground">
-              {training.type === 'classic' ? 'Рук сыграно' : 'Ренжей проверено'}
+              {isHandTraining ? 'Рук сыграно' : 'Ренжей проверено'}
             </div>
           </div>
         </div>
@@ -323,7 +631,9 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
                 "p-2 rounded text-sm",
                 stat.correct 
                   ? "bg-green-500/20 text-green-700 dark:text-green-300" 
-                  : "bg-red-500/20 text-red-700 dark:text-red-300"
+                  : stat.score > 0
+                    ? "bg-yellow-500/20 text-yellow-700 dark:text-yellow-300"
+                    : "bg-red-500/20 text-red-700 dark:text-red-300"
               )}
             >
               {stat.hand}
@@ -340,9 +650,14 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
             <div className="text-lg font-semibold">
               {currentRange.folderName} - {currentRange.name}
             </div>
-            <Button size="sm" variant="destructive" onClick={finishTraining}>
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={pauseSession}>
+                <Pause className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="destructive" onClick={finishTraining}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -354,14 +669,17 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
               <h1 className="text-2xl font-bold mb-2">
                 {currentRange.folderName} - {currentRange.name}
               </h1>
-              {training.type === 'classic' && (
+              {currentSpot && (
+                <p className="text-muted-foreground">{describeSpot(currentSpot)}</p>
+              )}
+              {isHandTraining && (
                 <p className="text-muted-foreground">
-                  Текущая рука: {currentHand} ({currentHandIndex + 1}/{hands.length})
+                  Текущая рука: {currentHandLabel} ({currentHandIndex + 1}/{questions.length})
                 </p>
               )}
             </div>
 
-            {training.type === 'classic' ? (
+            {isHandTraining ? (
               // Classic training interface
               <div className="space-y-6">
                 {/* Poker table */}
@@ -371,20 +689,41 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
                     "relative bg-poker-felt rounded-full border-8 border-poker-table shadow-2xl transition-all duration-300",
                     "w-full aspect-[3/2] max-w-lg mx-auto",
                     feedback === 'correct' && "shadow-green-500/50",
+                    feedback === 'partial' && "shadow-yellow-500/50",
                     feedback === 'incorrect' && "shadow-red-500/50"
                   )}>
                     {/* Table felt pattern */}
                     <div className="absolute inset-4 rounded-full bg-gradient-to-br from-poker-felt to-poker-green opacity-90"></div>
                     
                     {/* Dealer position (black circle with cards) */}
-                    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
+                    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-2">
+                      {currentBoard && (
+                        <PokerCard cards={currentBoard} className="scale-75 sm:scale-90" />
+                      )}
                       <div className="bg-black rounded-full p-4 shadow-xl border-4 border-gray-800">
-                        <PokerCard hand={currentHand} className="scale-90 sm:scale-100" />
+                        <PokerCard hand={currentCombo || currentHand} className="scale-90 sm:scale-100" />
                       </div>
                     </div>
+
+                    {/* Time left for the answer */}
+                    {timeLimitMs > 0 && (
+                      <div className="absolute top-2 right-2 sm:top-4 sm:right-8">
+                        <CountdownRing remaining={remainingTime} total={timeLimitMs} />
+                      </div>
+                    )}
+
+                    {/* RNG roll - positioned left of cards */}
+                    {answerMode === 'rng' && (
+                      <div className="absolute top-1/2 left-8 sm:left-12 transform -translate-y-1/2 text-center">
+                        <div className="text-white/60 text-xs font-semibold">RNG</div>
+                        <div className="w-12 h-12 sm:w-16 sm:h-16 rounded-full bg-black/70 border-2 border-gray-700 text-white text-lg sm:text-2xl font-bold font-mono flex items-center justify-center shadow-xl">
+                          {currentRoll}
+                        </div>
+                      </div>
+                    )}
                     
                     {/* Next hand button - positioned right of cards */}
-                    {feedback === 'incorrect' && (
+                    {feedback && feedback !== 'correct' && (
                       <div className="absolute top-1/2 right-8 sm:right-12 transform -translate-y-1/2">
                         <Button
                           onClick={proceedToNext}
@@ -396,50 +735,74 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
                       </div>
                     )}
                     
-                    {/* Table decorative elements */}
-                    <div className="absolute top-4 left-1/2 transform -translate-x-1/2">
-                      <div className="text-white/60 text-sm font-semibold">DEALER</div>
-                    </div>
+                    {/* Seats of the spot, or the table decorative elements */}
+                    {currentSpot ? (
+                      <TableSeats spot={currentSpot} />
+                    ) : (
+                      <div className="absolute top-4 left-1/2 transform -translate-x-1/2">
+                        <div className="text-white/60 text-sm font-semibold">DEALER</div>
+                      </div>
+                    )}
                   </div>
                   
                   {/* Mobile current hand info */}
                   <div className="sm:hidden text-center mt-4">
                     <p className="text-muted-foreground text-sm">
-                      Рука {currentHandIndex + 1} из {hands.length}: <span className="font-bold text-primary">{currentHand}</span>
+                      Рука {currentHandIndex + 1} из {questions.length}: <span className="font-bold text-primary">{currentHandLabel}</span>
                     </p>
                   </div>
                 </div>
 
-                {/* Action buttons */}
-                <div className="flex justify-center gap-2 sm:gap-3 flex-wrap px-4">
-                  <Button
-                    variant="secondary"
-                    size="sm"
-                    onClick={() => handleClassicAnswer('fold')}
-                    disabled={!!feedback}
-                    className={cn(
-                      "bg-gray-500 text-white hover:bg-gray-600 text-xs sm:text-sm px-3 sm:px-4",
-                      feedback === 'incorrect' && getCorrectAction(currentHand) === 'fold' && "ring-2 ring-green-500"
-                    )}
-                  >
-                    FOLD
-                  </Button>
-                  {actionButtons.map((button) => (
+                {/* Action buttons, or the frequencies of the answer */}
+                {answerMode === 'frequency' ? (
+                  <div className="max-w-sm mx-auto space-y-3 px-4">
+                    <FrequencyEditor actions={answerButtons as SimpleActionButton[]} value={frequencyAnswer} onChange={setFrequencyAnswer} />
+                    <Button className="w-full" variant="poker" onClick={handleFrequencyAnswer} disabled={!!feedback}>
+                      Ответить
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex justify-center gap-2 sm:gap-3 flex-wrap px-4">
                     <Button
-                      key={button.id}
+                      variant="secondary"
                       size="sm"
-                      onClick={() => handleClassicAnswer(button.id)}
+                      onClick={() => handleClassicAnswer('fold')}
                       disabled={!!feedback}
-                      style={getActionButtonStyle(button, actionButtons)}
                       className={cn(
-                        "text-white hover:opacity-80 text-xs sm:text-sm px-3 sm:px-4",
-                        feedback === 'incorrect' && getCorrectAction(currentHand) === button.id && "ring-2 ring-green-500"
+                        "bg-gray-500 text-white hover:bg-gray-600 text-xs sm:text-sm px-3 sm:px-4",
+                        feedback && feedback !== 'correct' && isCorrectAction('fold') && "ring-2 ring-green-500"
                       )}
                     >
-                      {button.name}
+                      FOLD
                     </Button>
-                  ))}
-                </div>
+                    {answerButtons.map((button) => (
+                      <Button
+                        key={button.id}
+                        size="sm"
+                        onClick={() => handleClassicAnswer(button.id)}
+                        disabled={!!feedback}
+                        style={getActionButtonStyle(button, actionButtons)}
+                        className={cn(
+                          "text-white hover:opacity-80 text-xs sm:text-sm px-3 sm:px-4",
+                          feedback && feedback !== 'correct' && isCorrectAction(button.id) && "ring-2 ring-green-500"
+                        )}
+                      >
+                        {button.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Frequencies the answer was graded against */}
+                {feedback && answerMode !== 'action' && (
+                  <p className="text-center text-sm text-muted-foreground">
+                    {answerMode === 'rng'
+                      ? getRngBuckets(getCorrectStrategy(currentHand), actionButtons)
+                        .map(bucket => `${bucket.from}–${bucket.to} ${getActionName(bucket.actionId)}`)
+                        .join(' • ')
+                      : formatCorrectStrategy()}
+                  </p>
+                )}
 
                 {/* Show correct range if wrong */}
                 {showCorrectRange && (
@@ -448,6 +811,8 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
                     <div className="overflow-x-auto">
                       <PokerMatrix
                         selectedHands={currentRange.hands}
+                        combos={currentRange.combos}
+                        mixes={currentRange.mixes}
                         onHandSelect={() => {}}
                         activeAction=""
                         actionButtons={actionButtons}
@@ -469,14 +834,60 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
               <div className="space-y-4 sm:space-y-6">
                 <div className="overflow-x-auto pb-4">
                   <PokerMatrix
-                    selectedHands={showCorrectRange ? currentRange.hands : userMatrix}
+                    selectedHands={userMatrix}
                     onHandSelect={handleMatrixSelect}
                     activeAction={activeAction}
                     actionButtons={actionButtons}
                     readOnly={isChecked}
+                    mistakes={matrixScore?.mistakes}
                   />
                 </div>
 
+                {/* Review of the drawn matrix */}
+                {matrixScore && (
+                  <div className="space-y-3 px-2 sm:px-4">
+                    <p className="text-center text-sm">
+                      Точность: <span className="font-semibold">{Math.round(matrixScore.score * 100)}%</span>
+                      <span className="text-muted-foreground"> • верно {matrixScore.correctCombos} из {TOTAL_COMBOS} комбо</span>
+                    </p>
+                    {!matrixScore.isPerfect && (
+                      <div className="flex justify-center gap-3 flex-wrap text-xs text-muted-foreground">
+                        {(Object.keys(CELL_MISTAKE_LABELS) as CellMistake[]).map(mistake => (
+                          <span key={mistake} className="flex items-center gap-1.5">
+                            <span className={cn("h-3 w-3 rounded-sm ring-2 ring-inset", CELL_MISTAKE_CLASSES[mistake])} />
+                            {CELL_MISTAKE_LABELS[mistake]}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-center gap-x-4 gap-y-1 flex-wrap text-xs">
+                      {matrixScore.actions.filter(action => action.expected > 0).map(action => (
+                        <span key={action.actionId}>
+                          {getActionName(action.actionId)}: {action.correct}/{action.expected}
+                          {action.extra > 0 && <span className="text-muted-foreground"> (+{action.extra} лишних)</span>}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {showCorrectRange && (
+                  <div className="space-y-2">
+                    <h3 className="text-center text-lg font-semibold">Правильный ренж:</h3>
+                    <div className="overflow-x-auto pb-4">
+                      <PokerMatrix
+                        selectedHands={currentRange.hands}
+                        combos={currentRange.combos}
+                        mixes={currentRange.mixes}
+                        onHandSelect={() => {}}
+                        activeAction=""
+                        actionButtons={actionButtons}
+                        readOnly
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Action selection buttons */}
                 <div className="flex justify-center gap-2 sm:gap-3 flex-wrap px-2 sm:px-4">
                   <Button
@@ -514,7 +925,10 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
                     onClick={checkBorderRepeat}
                     disabled={isChecked}
                     variant={feedback === 'correct' ? 'default' : feedback === 'incorrect' ? 'destructive' : 'poker'}
-                    className={feedback === 'correct' ? 'bg-green-600 hover:bg-green-700' : ''}
+                    className={cn(
+                      feedback === 'correct' && 'bg-green-600 hover:bg-green-700',
+                      feedback === 'partial' && 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                    )}
                     size="sm"
                   >
                     Проверить
@@ -561,13 +975,34 @@ export const TrainingSession = ({ training, onStop }: TrainingSessionProps) => {
             <div>
               <div className="text-base font-bold text-primary">{sessionStats.hands.length}</div>
               <div className="text-xs text-muted-foreground">
-                {training.type === 'classic' ? 'Рук' : 'Ренжей'}
+                {isHandTraining ? 'Рук' : 'Ренжей'}
               </div>
             </div>
           </div>
         </div>
       </div>
       
+      {/* Paused session, the question stays hidden until it goes on */}
+      {pausedAt !== null && (
+        <div className="fixed inset-0 z-40 bg-background/95 flex items-center justify-center p-4">
+          <Card className="p-6 text-center space-y-4 w-full max-w-sm">
+            <h2 className="text-xl font-semibold">Пауза</h2>
+            <p className="text-sm text-muted-foreground">
+              {isHandTraining ? 'Рук сыграно' : 'Ренжей проверено'}: {sessionStats.hands.length} из {totalQuestions} • Время: {formatTime()}
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button variant="poker" onClick={resumeSession}>
+                <Play className="h-4 w-4 mr-2" />
+                Продолжить
+              </Button>
+              <Button variant="outline" onClick={leaveSession}>
+                Отложить
+              </Button>
+            </div>
+          </Card>
+        </div>
+      )}
+
       {/* Training Results Dialog */}
       {trainingResults && (
         <TrainingResultsDialog
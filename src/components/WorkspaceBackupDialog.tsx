@@ -0,0 +1,262 @@
+import { useState, useMemo, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Download, Upload } from "lucide-react";
+import {
+  WorkspaceData,
+  WorkspaceBackup,
+  ImportMode,
+  ConflictStrategy,
+  WORKSPACE_SECTIONS,
+  SECTION_LABELS,
+  readWorkspace,
+  writeWorkspace,
+  createBackup,
+  parseBackup,
+  planImport,
+} from "@/lib/workspaceBackup";
+import { QuarantineEntry, getQuarantine, clearQuarantine, flushStorage } from "@/lib/persistence";
+import { useToast } from "@/hooks/use-toast";
+
+interface WorkspaceBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: string) =>
+  date ? new Date(date).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : '—';
+
+export const WorkspaceBackupDialog = ({ open, onOpenChange }: WorkspaceBackupDialogProps) => {
+  const { toast } = useToast();
+  const [current, setCurrent] = useState<WorkspaceData>(() => readWorkspace());
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflicts, setConflicts] = useState<ConflictStrategy>('keep-both');
+  const [quarantined, setQuarantined] = useState<QuarantineEntry[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setCurrent(readWorkspace());
+      setQuarantined(getQuarantine());
+      setBackup(null);
+      setFileName("");
+      setErrors([]);
+      setWarnings([]);
+    }
+  }, [open]);
+
+  const plan = useMemo(
+    () => (backup ? planImport(current, backup.data, mode, conflicts) : null),
+    [current, backup, mode, conflicts]
+  );
+
+  const downloadJson = (value: unknown, name: string) => {
+    const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = () => {
+    downloadJson(createBackup(readWorkspace()), 'poker-workspace');
+  };
+
+  const handleClearQuarantine = () => {
+    clearQuarantine();
+    setQuarantined([]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const parsed = parseBackup(await file.text());
+      setFileName(file.name);
+      setBackup(parsed.backup);
+      setErrors(parsed.errors);
+      setWarnings(parsed.warnings);
+    } catch (error) {
+      console.error("Failed to read backup file:", error);
+      toast({ title: "Ошибка", description: "Не удалось прочитать файл.", variant: "destructive" });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    writeWorkspace(plan.data);
+    if (!(await flushStorage())) {
+      toast({ title: "Ошибка", description: "Не удалось сохранить данные.", variant: "destructive" });
+      return;
+    }
+    // Every section keeps its own state, a reload makes all of them pick up the restored data
+    window.location.reload();
+  };
+
+  const renderCounts = (data: WorkspaceData) => (
+    <ul className="text-sm space-y-1">
+      {WORKSPACE_SECTIONS.map(section => (
+        <li key={section} className="flex justify-between">
+          <span className="text-muted-foreground">{SECTION_LABELS[section]}</span>
+          <span className="font-mono">{data[section].length}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Резервная копия</DialogTitle>
+          <DialogDescription>
+            Папки, версии ренжей, действия, чарты, тренировки, статистика и интервальное повторение в одном файле.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export">Экспорт</TabsTrigger>
+            <TabsTrigger value="import">Импорт</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            {renderCounts(current)}
+            <Button onClick={handleExport} className="w-full">
+              <Download className="h-4 w-4 mr-2" />
+              Скачать резервную копию
+            </Button>
+            {quarantined.length > 0 && (
+              <div className="rounded-md border border-destructive/50 p-3 space-y-2">
+                <p className="text-sm font-medium">Повреждённые данные: {quarantined.length}</p>
+                <p className="text-xs text-muted-foreground">
+                  Эти данные не удалось прочитать при загрузке. Они сохранены отдельно и не используются приложением.
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {quarantined.map((entry, index) => (
+                    <li key={index}>{formatDate(new Date(entry.timestamp).toISOString())} — {entry.key}: {entry.reason}</li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => downloadJson(quarantined, 'poker-quarantine')}>
+                    Скачать
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleClearQuarantine}>
+                    Удалить
+                  </Button>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-2">
+            <Button variant="outline" className="w-full" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                {fileName || "Выбрать файл"}
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+              </label>
+            </Button>
+
+            {errors.length > 0 && (
+              <div className="text-sm text-destructive space-y-1">
+                {errors.map((error, index) => <p key={index}>{error}</p>)}
+              </div>
+            )}
+
+            {backup && plan && (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Версия {backup.version}, создана {formatDate(backup.exportedAt)}
+                </p>
+                {warnings.length > 0 && (
+                  <div className="text-xs text-destructive space-y-1">
+                    {warnings.map((warning, index) => <p key={index}>{warning}</p>)}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Режим</Label>
+                  <RadioGroup value={mode} onValueChange={(v: ImportMode) => setMode(v)} className="flex gap-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="merge" id="backup-merge" />
+                      <Label htmlFor="backup-merge">Объединить</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="replace" id="backup-replace" />
+                      <Label htmlFor="backup-replace">Заменить всё</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+
+                {mode === 'merge' && (
+                  <div className="space-y-2">
+                    <Label>Совпадающие id с другим содержимым</Label>
+                    <RadioGroup value={conflicts} onValueChange={(v: ConflictStrategy) => setConflicts(v)} className="flex gap-4">
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="keep-both" id="backup-keep-both" />
+                        <Label htmlFor="backup-keep-both">Сохранить оба</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="overwrite" id="backup-overwrite" />
+                        <Label htmlFor="backup-overwrite">Перезаписать</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Раздел</TableHead>
+                      <TableHead className="text-right">Добавится</TableHead>
+                      <TableHead className="text-right">{mode === 'merge' ? 'Перезапишется' : 'Удалится'}</TableHead>
+                      {mode === 'merge' && <TableHead className="text-right">Без изменений</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {WORKSPACE_SECTIONS.map(section => {
+                      const summary = plan.summary[section];
+                      return (
+                        <TableRow key={section}>
+                          <TableCell>{SECTION_LABELS[section]}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {summary.added + summary.remapped}
+                            {summary.remapped > 0 && <span className="text-muted-foreground"> ({summary.remapped} с новым id)</span>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {mode === 'merge' ? summary.overwritten : summary.removed}
+                          </TableCell>
+                          {mode === 'merge' && <TableCell className="text-right font-mono">{summary.unchanged}</TableCell>}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Закрыть</Button>
+          {backup && (
+            <Button onClick={handleImport} variant={mode === 'replace' ? 'destructive' : 'default'}>
+              Импортировать
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
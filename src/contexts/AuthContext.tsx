@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { loadValue, saveValue, removeValue } from '@/lib/persistence';
 
 interface User {
   username: string;
@@ -27,31 +28,31 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     // Проверяем сохраненную сессию при загрузке
-    const savedUser = localStorage.getItem('currentUser');
+    const savedUser = loadValue('currentUser', null);
     if (savedUser) {
-      setUser(JSON.parse(savedUser));
+      setUser(savedUser);
     }
   }, []);
 
   const register = async (username: string, password: string): Promise<{ success: boolean; message?: string }> => {
-    const users = JSON.parse(localStorage.getItem('users') || '{}');
+    const users = loadValue('users', {});
     
     if (users[username]) {
       return { success: false, message: 'Пользователь с таким именем уже существует. Задайте другое имя.' };
     }
     
     users[username] = { password };
-    localStorage.setItem('users', JSON.stringify(users));
+    saveValue('users', users);
     
     const newUser = { username };
     setUser(newUser);
-    localStorage.setItem('currentUser', JSON.stringify(newUser));
+    saveValue('currentUser', newUser);
     
     return { success: true };
   };
 
   const login = async (username: string, password: string): Promise<{ success: boolean; message?: string }> => {
-    const users = JSON.parse(localStorage.getItem('users') || '{}');
+    const users = loadValue('users', {});
     
     if (!users[username]) {
       return { success: false, message: 'Пользователь не найден.' };
@@ -63,14 +64,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     const loggedUser = { username };
     setUser(loggedUser);
-    localStorage.setItem('currentUser', JSON.stringify(loggedUser));
+    saveValue('currentUser', loggedUser);
     
     return { success: true };
   };
 
   const logout = () => {
     setUser(null);
-    localStorage.removeItem('currentUser');
+    removeValue('currentUser');
   };
 
   return (
@@ -1,4 +1,7 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, SetStateAction } from 'react';
+import { StoredRangeVersion, loadCollection, saveCollection } from '@/lib/persistence';
+import { AUTO_VERSION_DELAY, AUTO_VERSION_MIN_HANDS, addRangeVersion, createRangeVersion, isEmptyRange } from '@/lib/rangeVersions';
+import { getChangedHands } from '@/lib/rangeCompare';
 
 export interface SimpleActionButton {
   type: 'simple';
@@ -19,25 +22,58 @@ export interface WeightedActionButton {
 export type ActionButton = SimpleActionButton | WeightedActionButton;
 
 
-interface Range {
+export interface Range {
   id: string;
   name: string;
   hands: Record<string, string>;
+  combos?: Record<string, string>; // Per-combo overrides, e.g. "AhKh" -> actionId ('fold' allowed)
+  mixes?: Record<string, Record<string, number>>; // Per-hand frequencies in percent, the remainder is fold
 }
 
-interface Folder {
+export interface Folder {
   id: string;
   name: string;
   ranges: Range[];
 }
 
+interface HistoryState {
+  folders: Folder[];
+  actionButtons: ActionButton[];
+}
+
+// One undoable operation. Entries of the undo stack hold the state before the
+// operation, entries of the redo stack the state after it.
+export interface HistoryEntry extends HistoryState {
+  label: string;
+  timestamp: number;
+}
+
+// Label and merge key of a change. Consecutive changes with the same merge key
+// (e.g. keystrokes of one rename) are undone as a single step.
+type HistoryChangeSetter<T> = (action: SetStateAction<T>, label?: string, mergeKey?: string) => void;
+
 interface RangeContextType {
   folders: Folder[];
   actionButtons: ActionButton[];
-  setFolders: React.Dispatch<React.SetStateAction<Folder[]>>;
-  setActionButtons: React.Dispatch<React.SetStateAction<ActionButton[]>>;
+  setFolders: HistoryChangeSetter<Folder[]>;
+  setActionButtons: HistoryChangeSetter<ActionButton[]>;
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  // Every change between begin and end (a drag stroke, a delete touching both
+  // folders and actions) becomes one history step with the group label
+  beginHistoryGroup: (label: string) => void;
+  endHistoryGroup: () => void;
+  rangeVersions: StoredRangeVersion[];
+  saveRangeVersion: (rangeId: string, options?: { isAuto?: boolean; note?: string }) => void;
+  deleteRangeVersion: (versionId: string) => void;
 }
 
+const HISTORY_LIMIT = 100;
+
+const stateOf = ({ folders, actionButtons }: HistoryState): HistoryState => ({ folders, actionButtons });
+
 const RangeContext = createContext<RangeContextType | undefined>(undefined);
 
 export const useRangeContext = () => {
@@ -49,42 +85,183 @@ export const useRangeContext = () => {
 };
 
 export const RangeProvider = ({ children }: { children: ReactNode }) => {
-  const [folders, setFolders] = useState<Folder[]>(() => {
-    const saved = localStorage.getItem('poker-ranges-folders');
-    return saved ? JSON.parse(saved) : [{
-      id: '1',
-      name: 'Folder',
-      ranges: [
-        {
-          id: '1',
-          name: 'Range',
-          hands: {}
-        }
-      ]
-    }];
-  });
+  const [folders, setFoldersState] = useState<Folder[]>(() => loadCollection('folders', [{
+    id: '1',
+    name: 'Folder',
+    ranges: [
+      {
+        id: '1',
+        name: 'Range',
+        hands: {}
+      }
+    ]
+  }]));
   
-  const [actionButtons, setActionButtons] = useState<ActionButton[]>(() => {
-    const saved = localStorage.getItem('poker-ranges-actions');
-    if (saved) {
-      // Basic migration: if an old button doesn't have a 'type', assume it's 'simple'
-      const parsed = JSON.parse(saved);
-      return parsed.map((btn: any) => btn.type ? btn : { ...btn, type: 'simple' });
-    }
-    return [{ type: 'simple', id: 'raise', name: 'Raise', color: '#8b5cf6' }];
+  const [actionButtons, setActionButtonsState] = useState<ActionButton[]>(() =>
+    loadCollection('actionButtons', [{ type: 'simple', id: 'raise', name: 'Raise', color: '#8b5cf6' }])
+  );
+
+  // Versions of ranges that no longer exist are dropped on load
+  const [rangeVersions, setRangeVersions] = useState<StoredRangeVersion[]>(() => {
+    const rangeIds = new Set(folders.flatMap(folder => folder.ranges.map(range => range.id)));
+    return loadCollection('rangeVersions', []).filter(version => rangeIds.has(version.rangeId));
   });
+  // State of every range the next automatic version is compared against
+  const versionBaselines = useRef<Record<string, Range>>({});
+
+  // History lives in memory only, it starts empty on every page load
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  // Latest state, updated synchronously so several changes in one event see each other
+  const current = useRef<HistoryState>({ folders, actionButtons });
+  const group = useRef<{ label: string; isRecorded: boolean } | null>(null);
+  const lastMergeKey = useRef<string | null>(null);
+
+  const record = (label: string, mergeKey?: string) => {
+    if (group.current) {
+      if (group.current.isRecorded) return;
+      group.current.isRecorded = true;
+      label = group.current.label;
+      mergeKey = undefined;
+    } else if (mergeKey && lastMergeKey.current === mergeKey) {
+      return;
+    }
+    lastMergeKey.current = mergeKey ?? null;
+
+    const entry: HistoryEntry = { label, timestamp: Date.now(), ...stateOf(current.current) };
+    setUndoStack(prev => [...prev, entry].slice(-HISTORY_LIMIT));
+    setRedoStack([]);
+  };
+
+  const applyChange = (next: HistoryState, label: string, mergeKey?: string) => {
+    record(label, mergeKey);
+    current.current = next;
+    setFoldersState(next.folders);
+    setActionButtonsState(next.actionButtons);
+  };
 
-  // Save to localStorage when data changes
+  const setFolders: HistoryChangeSetter<Folder[]> = (action, label = 'Изменение ренжей', mergeKey) => {
+    const prev = current.current.folders;
+    const next = typeof action === 'function' ? action(prev) : action;
+    if (next !== prev) applyChange({ ...current.current, folders: next }, label, mergeKey);
+  };
+
+  const setActionButtons: HistoryChangeSetter<ActionButton[]> = (action, label = 'Изменение действий', mergeKey) => {
+    const prev = current.current.actionButtons;
+    const next = typeof action === 'function' ? action(prev) : action;
+    if (next !== prev) applyChange({ ...current.current, actionButtons: next }, label, mergeKey);
+  };
+
+  const restore = (state: HistoryState) => {
+    lastMergeKey.current = null;
+    current.current = stateOf(state);
+    setFoldersState(state.folders);
+    setActionButtonsState(state.actionButtons);
+  };
+
+  const undo = (steps = 1) => {
+    const count = Math.min(steps, undoStack.length);
+    if (count === 0) return;
+    const start = undoStack.length - count;
+    const undone = undoStack.slice(start);
+    // The state after each undone operation is the state before the next one
+    const redoEntries = undone.map((entry, index) => ({
+      label: entry.label,
+      timestamp: entry.timestamp,
+      ...stateOf(undone[index + 1] ?? current.current),
+    })).reverse();
+
+    setUndoStack(undoStack.slice(0, start));
+    setRedoStack(prev => [...prev, ...redoEntries]);
+    restore(undoStack[start]);
+  };
+
+  const redo = (steps = 1) => {
+    const count = Math.min(steps, redoStack.length);
+    if (count === 0) return;
+    const start = redoStack.length - count;
+    const redone = redoStack.slice(start).reverse();
+    const undoEntries = redone.map((entry, index) => ({
+      label: entry.label,
+      timestamp: entry.timestamp,
+      ...stateOf(index === 0 ? current.current : redone[index - 1]),
+    }));
+
+    setRedoStack(redoStack.slice(0, start));
+    setUndoStack(prev => [...prev, ...undoEntries].slice(-HISTORY_LIMIT));
+    restore(redoStack[start]);
+  };
+
+  const beginHistoryGroup = (label: string) => {
+    group.current = { label, isRecorded: false };
+    lastMergeKey.current = null;
+  };
+
+  const endHistoryGroup = () => {
+    group.current = null;
+  };
+
+  // Save to storage when data changes
   useEffect(() => {
-    localStorage.setItem('poker-ranges-folders', JSON.stringify(folders));
+    saveCollection('folders', folders);
   }, [folders]);
 
   useEffect(() => {
-    localStorage.setItem('poker-ranges-actions', JSON.stringify(actionButtons));
+    saveCollection('actionButtons', actionButtons);
   }, [actionButtons]);
 
+  useEffect(() => {
+    saveCollection('rangeVersions', rangeVersions);
+  }, [rangeVersions]);
+
+  // Once edits settle, a range that moved far enough from its baseline gets the
+  // baseline saved as an automatic version, so a large edit can be rolled back.
+  useEffect(() => {
+    const ranges = folders.flatMap(folder => folder.ranges);
+    ranges.forEach(range => {
+      if (!versionBaselines.current[range.id]) versionBaselines.current[range.id] = range;
+    });
+
+    const timeout = setTimeout(() => {
+      const versions: StoredRangeVersion[] = [];
+      ranges.forEach(range => {
+        const baseline = versionBaselines.current[range.id];
+        if (baseline === range || getChangedHands(baseline, range).length < AUTO_VERSION_MIN_HANDS) return;
+        if (!isEmptyRange(baseline)) versions.push(createRangeVersion(baseline, true));
+        versionBaselines.current[range.id] = range;
+      });
+      if (versions.length > 0) setRangeVersions(prev => versions.reduce(addRangeVersion, prev));
+    }, AUTO_VERSION_DELAY);
+    return () => clearTimeout(timeout);
+  }, [folders]);
+
+  const saveRangeVersion = (rangeId: string, { isAuto = false, note }: { isAuto?: boolean; note?: string } = {}) => {
+    const range = current.current.folders.flatMap(folder => folder.ranges).find(item => item.id === rangeId);
+    if (!range) return;
+    versionBaselines.current[rangeId] = range;
+    setRangeVersions(prev => addRangeVersion(prev, createRangeVersion(range, isAuto, note)));
+  };
+
+  const deleteRangeVersion = (versionId: string) => {
+    setRangeVersions(prev => prev.filter(version => version.id !== versionId));
+  };
+
   return (
-    <RangeContext.Provider value={{ folders, actionButtons, setFolders, setActionButtons }}>
+    <RangeContext.Provider value={{
+      folders,
+      actionButtons,
+      setFolders,
+      setActionButtons,
+      undoStack,
+      redoStack,
+      undo,
+      redo,
+      beginHistoryGroup,
+      endHistoryGroup,
+      rangeVersions,
+      saveRangeVersion,
+      deleteRangeVersion,
+    }}>
       {children}
     </RangeContext.Provider>
   );
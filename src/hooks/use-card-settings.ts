@@ -0,0 +1,35 @@
+import * as React from "react"
+
+import { loadValue, saveValue, StoredCardSettings } from "@/lib/persistence"
+
+export const DEFAULT_CARD_SETTINGS: StoredCardSettings = { deck: 'four-color', style: 'filled' }
+
+// Shared by every card on screen, so a change in the settings dialog redraws them all
+let settings: StoredCardSettings | null = null
+const listeners: Array<() => void> = []
+
+const getSettings = () => {
+  if (!settings) settings = loadValue('cardSettings', DEFAULT_CARD_SETTINGS)
+  return settings
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener)
+  return () => {
+    const index = listeners.indexOf(listener)
+    if (index > -1) listeners.splice(index, 1)
+  }
+}
+
+function setCardSettings(patch: Partial<StoredCardSettings>) {
+  settings = { ...getSettings(), ...patch }
+  saveValue('cardSettings', settings)
+  listeners.forEach((listener) => listener())
+}
+
+function useCardSettings() {
+  const current = React.useSyncExternalStore(subscribe, getSettings)
+  return { settings: current, setCardSettings }
+}
+
+export { useCardSettings, setCardSettings }
@@ -0,0 +1,52 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import type { EquityRequest, EquityResult } from "@/lib/equity";
+import type { EquityWorkerMessage } from "@/workers/equityWorker";
+
+// Starts equity calculations in a web worker. Each run gets a fresh worker, so
+// cancelling (or starting a new run) simply terminates the previous one.
+export function useEquityWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const [result, setResult] = useState<EquityResult | null>(null);
+  const [isRunning, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const run = useCallback((request: EquityRequest) => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../workers/equityWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setResult(null);
+    setError(null);
+    setRunning(true);
+
+    worker.onmessage = (event: MessageEvent<EquityWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'error') {
+        setError(message.message);
+      } else {
+        setResult(message.result);
+      }
+      if (message.type !== 'progress') {
+        worker.terminate();
+        if (workerRef.current === worker) workerRef.current = null;
+        setRunning(false);
+      }
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'Ошибка расчёта');
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setRunning(false);
+    };
+    worker.postMessage(request);
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { run, cancel, result, isRunning, error };
+}
@@ -0,0 +1,50 @@
+import { ActionButton } from "@/contexts/RangeContext";
+
+export const FOLD_COLOR = '#6b7280';
+
+export const getActionColor = (actionId: string, buttons: ActionButton[]): string => {
+  if (actionId === 'fold') return FOLD_COLOR;
+  const button = buttons.find(b => b.id === actionId);
+  if (button && button.type === 'simple') {
+    return button.color;
+  }
+  return '#ffffff';
+};
+
+export interface ColorSegment {
+  color: string;
+  fraction: number; // 0-1 share of the cell
+}
+
+// Splits an action into colored segments; a weighted button becomes its two component colors.
+export const getActionSegments = (actionId: string, buttons: ActionButton[], fraction = 1): ColorSegment[] => {
+  const button = buttons.find(b => b.id === actionId);
+  if (button && button.type === 'weighted') {
+    return [
+      { color: getActionColor(button.action1Id, buttons), fraction: fraction * button.weight / 100 },
+      { color: getActionColor(button.action2Id, buttons), fraction: fraction * (100 - button.weight) / 100 },
+    ];
+  }
+  return [{ color: getActionColor(actionId, buttons), fraction }];
+};
+
+// Hard-stop gradient that draws segments side by side as stacked bars.
+export const getSegmentsBackground = (segments: ColorSegment[]): string => {
+  const total = segments.reduce((sum, segment) => sum + segment.fraction, 0) || 1;
+  let offset = 0;
+  const stops = segments
+    .filter(segment => segment.fraction > 0)
+    .map(segment => {
+      const start = offset;
+      offset += (segment.fraction / total) * 100;
+      return `${segment.color} ${start}%, ${segment.color} ${offset}%`;
+    });
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+export const getActionButtonStyle = (button: ActionButton, buttons: ActionButton[]) => {
+  if (button.type === 'simple') {
+    return { backgroundColor: button.color };
+  }
+  return { background: getSegmentsBackground(getActionSegments(button.id, buttons)) };
+};
@@ -0,0 +1,88 @@
+import { ActionButton } from "@/contexts/RangeContext";
+import { Strategy, resolveStrategy } from "@/lib/rangeStrategy";
+
+// Grading of a training answer against the frequencies of the hand. Weighted
+// buttons are resolved into their component actions on both sides, so a hand
+// painted 60/40 raise/call is answered by playing raise or call: the most
+// frequent action is correct, the other one partially correct. An answer that
+// is itself a mix is scored by its distance from the strategy.
+
+export type AnswerMode = 'action' | 'rng' | 'frequency';
+
+export const ANSWER_MODE_LABELS: Record<AnswerMode, string> = {
+  action: 'Выбор действия',
+  rng: 'RNG',
+  frequency: 'Ввод частот',
+};
+
+export type AnswerVerdict = 'correct' | 'partial' | 'wrong';
+
+export interface AnswerGrade {
+  verdict: AnswerVerdict;
+  score: number; // 0..1
+}
+
+export interface RngBucket {
+  actionId: string;
+  from: number; // First roll of the action, 1..100
+  to: number;
+}
+
+// A mix this close to the strategy is correct, this far from it is wrong
+const CORRECT_DISTANCE = 0.1;
+const WRONG_DISTANCE = 0.5;
+
+const EPSILON = 0.001;
+
+// Share of the frequencies that has to move to turn one strategy into the other, 0..1.
+export const getStrategyDistance = (a: Strategy, b: Strategy): number =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .reduce((sum, actionId) => sum + Math.abs((a[actionId] || 0) - (b[actionId] || 0)), 0) / 2;
+
+export const gradeFrequencies = (strategy: Strategy, buttons: ActionButton[], answer: Strategy): AnswerGrade => {
+  const distance = getStrategyDistance(resolveStrategy(strategy, buttons), resolveStrategy(answer, buttons));
+  const score = Math.max(0, 1 - distance);
+  if (distance <= CORRECT_DISTANCE + EPSILON) return { verdict: 'correct', score };
+  return { verdict: distance >= WRONG_DISTANCE ? 'wrong' : 'partial', score };
+};
+
+// A single action is worth its frequency against the most frequent one; a weighted button is a mix.
+export const gradeAction = (strategy: Strategy, buttons: ActionButton[], actionId: string): AnswerGrade => {
+  const answer = resolveStrategy({ [actionId]: 1 }, buttons);
+  const answerActions = Object.keys(answer).filter(id => answer[id] > 0);
+  if (answerActions.length > 1) {
+    const distance = getStrategyDistance(resolveStrategy(strategy, buttons), answer);
+    return distance < EPSILON ? { verdict: 'correct', score: 1 } : gradeFrequencies(strategy, buttons, answer);
+  }
+
+  const resolved = resolveStrategy(strategy, buttons);
+  const frequency = resolved[answerActions[0]] || 0;
+  const maxFrequency = Math.max(...Object.values(resolved));
+  if (frequency < EPSILON) return { verdict: 'wrong', score: 0 };
+  if (frequency >= maxFrequency - EPSILON) return { verdict: 'correct', score: 1 };
+  return { verdict: 'partial', score: frequency / maxFrequency };
+};
+
+// Rolls 1..100 split between the actions of the strategy in the order of the buttons, fold last.
+export const getRngBuckets = (strategy: Strategy, buttons: ActionButton[]): RngBucket[] => {
+  const resolved = resolveStrategy(strategy, buttons);
+  const order = [...buttons.filter(button => button.type !== 'weighted').map(button => button.id), 'fold'];
+  const actionIds = [...order.filter(id => resolved[id] > 0), ...Object.keys(resolved).filter(id => !order.includes(id) && resolved[id] > 0)];
+
+  const buckets: RngBucket[] = [];
+  let assigned = 0;
+  actionIds.forEach((actionId, index) => {
+    const to = index === actionIds.length - 1 ? 100 : Math.round((assigned + resolved[actionId]) * 100);
+    if (to > Math.round(assigned * 100)) buckets.push({ actionId, from: Math.round(assigned * 100) + 1, to });
+    assigned += resolved[actionId];
+  });
+  return buckets;
+};
+
+export const rollRng = () => Math.floor(Math.random() * 100) + 1;
+
+// With a roll the only correct action is the one whose bucket holds it.
+export const gradeRngAction = (strategy: Strategy, buttons: ActionButton[], roll: number, actionId: string): AnswerGrade => {
+  const bucket = getRngBuckets(strategy, buttons).find(item => roll >= item.from && roll <= item.to);
+  return bucket?.actionId === actionId ? { verdict: 'correct', score: 1 } : { verdict: 'wrong', score: 0 };
+};
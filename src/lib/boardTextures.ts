@@ -0,0 +1,151 @@
+import { RANKS, SUITS } from "@/lib/poker";
+
+// The 1755 flops that differ strategically: flops that only differ by a renaming of
+// suits are one flop, weighted by how many of the 22100 dealt flops it stands for.
+// Canonical flops list their cards from the highest rank and use the suits in
+// order of appearance (s, h, d), so the suits have to be permuted before a flop is
+// shown to the player.
+
+export type SuitTexture = 'monotone' | 'two-tone' | 'rainbow';
+export type PairTexture = 'unpaired' | 'paired' | 'trips';
+export type ConnectTexture = 'connected' | 'disconnected';
+export type HeightTexture = 'high' | 'low';
+
+export interface FlopTexture {
+  suits: SuitTexture;
+  pairing: PairTexture;
+  connectivity: ConnectTexture; // Connected when a straight can be made with two hole cards
+  height: HeightTexture; // High when the top card is a ten or higher
+}
+
+export interface Flop {
+  cards: string[];
+  weight: number;
+  texture: FlopTexture;
+}
+
+// An empty list accepts every value of the property
+export interface BoardTextureFilter {
+  suits: SuitTexture[];
+  pairing: PairTexture[];
+  connectivity: ConnectTexture[];
+  height: HeightTexture[];
+}
+
+export const SUIT_TEXTURES: SuitTexture[] = ['monotone', 'two-tone', 'rainbow'];
+export const PAIR_TEXTURES: PairTexture[] = ['unpaired', 'paired', 'trips'];
+export const CONNECT_TEXTURES: ConnectTexture[] = ['connected', 'disconnected'];
+export const HEIGHT_TEXTURES: HeightTexture[] = ['high', 'low'];
+
+export const TEXTURE_LABELS: Record<SuitTexture | PairTexture | ConnectTexture | HeightTexture, string> = {
+  'monotone': 'Монотонный',
+  'two-tone': 'Двухмастный',
+  'rainbow': 'Радуга',
+  'unpaired': 'Непарный',
+  'paired': 'Спаренный',
+  'trips': 'Трипс',
+  'connected': 'Связанный',
+  'disconnected': 'Несвязанный',
+  'high': 'Высокий (T+)',
+  'low': 'Низкий (9 и ниже)',
+};
+
+export const EMPTY_TEXTURE_FILTER: BoardTextureFilter = { suits: [], pairing: [], connectivity: [], height: [] };
+
+const TOTAL_FLOPS = 22100;
+
+// Straight windows need the ace low as well as high; values run from 2 (deuce) to 14 (ace)
+const getRankValue = (rank: string) => 14 - RANKS.indexOf(rank);
+
+export const classifyFlop = (cards: string[]): FlopTexture => {
+  const suitCount = new Set(cards.map(card => card[1])).size;
+  const values = cards.map(card => getRankValue(card[0]));
+  const distinct = Array.from(new Set(values));
+  const lowValues = distinct.map(value => (value === 14 ? 1 : value));
+  const fitsWindow = (list: number[]) => Math.max(...list) - Math.min(...list) <= 4;
+
+  return {
+    suits: suitCount === 1 ? 'monotone' : suitCount === 2 ? 'two-tone' : 'rainbow',
+    pairing: distinct.length === 3 ? 'unpaired' : distinct.length === 2 ? 'paired' : 'trips',
+    connectivity: distinct.length === 3 && (fitsWindow(distinct) || fitsWindow(lowValues)) ? 'connected' : 'disconnected',
+    height: Math.max(...values) >= 10 ? 'high' : 'low',
+  };
+};
+
+// Suit patterns of the high, middle and low card with the number of flops each stands for
+const UNPAIRED_PATTERNS: [number[], number][] = [[[0, 0, 0], 4], [[0, 0, 1], 12], [[0, 1, 0], 12], [[0, 1, 1], 12], [[0, 1, 2], 24]];
+const PAIRED_HIGH_PATTERNS: [number[], number][] = [[[0, 1, 0], 12], [[0, 1, 2], 12]];
+const PAIRED_LOW_PATTERNS: [number[], number][] = [[[0, 0, 1], 12], [[0, 1, 2], 12]];
+const TRIPS_PATTERNS: [number[], number][] = [[[0, 1, 2], 4]];
+
+const createAllFlops = (): Flop[] => {
+  const flops: Flop[] = [];
+  for (let high = 0; high < RANKS.length; high++) {
+    for (let middle = high; middle < RANKS.length; middle++) {
+      for (let low = middle; low < RANKS.length; low++) {
+        const patterns = high === low
+          ? TRIPS_PATTERNS
+          : high === middle
+            ? PAIRED_HIGH_PATTERNS
+            : middle === low
+              ? PAIRED_LOW_PATTERNS
+              : UNPAIRED_PATTERNS;
+        patterns.forEach(([suits, weight]) => {
+          const cards = [high, middle, low].map((rank, index) => `${RANKS[rank]}${SUITS[suits[index]]}`);
+          flops.push({ cards, weight, texture: classifyFlop(cards) });
+        });
+      }
+    }
+  }
+  return flops;
+};
+
+export const ALL_FLOPS: Flop[] = createAllFlops();
+
+export const isEmptyTextureFilter = (filter: BoardTextureFilter): boolean =>
+  (Object.keys(EMPTY_TEXTURE_FILTER) as (keyof BoardTextureFilter)[]).every(key => filter[key].length === 0);
+
+export const filterFlops = (filter: BoardTextureFilter, flops: Flop[] = ALL_FLOPS): Flop[] =>
+  flops.filter(({ texture }) =>
+    (filter.suits.length === 0 || filter.suits.includes(texture.suits))
+    && (filter.pairing.length === 0 || filter.pairing.includes(texture.pairing))
+    && (filter.connectivity.length === 0 || filter.connectivity.includes(texture.connectivity))
+    && (filter.height.length === 0 || filter.height.includes(texture.height))
+  );
+
+// Share of all dealt flops the flops stand for, 0..1.
+export const getFlopsFrequency = (flops: Flop[]): number =>
+  flops.reduce((sum, flop) => sum + flop.weight, 0) / TOTAL_FLOPS;
+
+// At most `count` flops that stand for the whole list: systematic sampling over the
+// cumulative weight of the list, which is ordered by rank, so every part of it is
+// represented and the weights of the subset still add up to those of the list.
+export const getRepresentativeFlops = (flops: Flop[], count: number): Flop[] => {
+  if (flops.length <= count) return flops;
+  const total = flops.reduce((sum, flop) => sum + flop.weight, 0);
+  const step = total / count;
+  const picked = new Map<Flop, number>();
+  let cumulative = 0;
+  let next = step / 2;
+  flops.forEach(flop => {
+    cumulative += flop.weight;
+    while (next < cumulative) {
+      picked.set(flop, (picked.get(flop) || 0) + step);
+      next += step;
+    }
+  });
+  return Array.from(picked, ([flop, weight]) => ({ ...flop, weight }));
+};
+
+// A random flop by weight, with its suits renamed at random, that uses none of the blocked cards.
+export const dealRandomFlop = (flops: Flop[], blocked: string[] = []): string[] | null => {
+  const total = flops.reduce((sum, flop) => sum + flop.weight, 0);
+  for (let attempt = 0; attempt < 20 && total > 0; attempt++) {
+    let target = Math.random() * total;
+    const flop = flops.find(item => (target -= item.weight) < 0) || flops[flops.length - 1];
+    const suits = [...SUITS].sort(() => Math.random() - 0.5);
+    const cards = flop.cards.map(card => `${card[0]}${suits[SUITS.indexOf(card[1])]}`);
+    if (!cards.some(card => blocked.includes(card))) return cards;
+  }
+  return null;
+};
@@ -0,0 +1,258 @@
+import { ActionButton, Range } from "@/contexts/RangeContext";
+import { ALL_HANDS, getComboHand, getHandCombos } from "@/lib/poker";
+import { evaluateHand, toCardIndex } from "@/lib/handEvaluator";
+import { getComboStrategy, resolveStrategy } from "@/lib/rangeStrategy";
+
+// Equity of two players, each holding a single combo or a weighted set of combos,
+// with an optional partial board and dead cards. A run is advanced in steps so the
+// caller (the equity worker) can report progress between them. Monte Carlo samples
+// combos by weight and random board runouts; exhaustive mode walks every pair of
+// combos and every runout.
+
+export type EquityMode = 'monte-carlo' | 'exhaustive';
+
+export interface WeightedCombo {
+  combo: string; // e.g. "AhKd"
+  weight: number; // 0..1
+}
+
+export interface EquityRequest {
+  players: [WeightedCombo[], WeightedCombo[]];
+  board: string[]; // 0-5 cards
+  dead: string[];
+  mode: EquityMode;
+  iterations: number; // Monte Carlo samples
+}
+
+export interface HandEquity {
+  equity: number; // 0..1
+  weight: number; // share of the runs the hand took part in
+}
+
+export interface PlayerEquity {
+  equity: number; // 0..1, ties count as half
+  win: number;
+  tie: number;
+  hands: Record<string, HandEquity>; // per hand class
+}
+
+export interface EquityResult {
+  players: [PlayerEquity, PlayerEquity];
+  progress: number; // 0..1
+  runs: number; // evaluated boards
+}
+
+export interface EquityRun {
+  step: (budget: number) => boolean; // evaluates about `budget` boards, true once finished
+  getResult: () => EquityResult;
+}
+
+// Exhaustive runs above this number of boards take too long, Monte Carlo is used instead
+export const EXHAUSTIVE_LIMIT = 20_000_000;
+
+export const MONTE_CARLO_ITERATIONS = [100_000, 500_000, 2_000_000];
+
+const BOARD_SIZE = 5;
+
+// Combos of the range with the frequency of the action, or of every action but fold.
+export const getRangeWeightedCombos = (range: Range, buttons: ActionButton[], actionId?: string): WeightedCombo[] =>
+  ALL_HANDS.flatMap(hand => getHandCombos(hand)).flatMap(combo => {
+    const strategy = resolveStrategy(getComboStrategy(range, combo), buttons);
+    const weight = actionId ? strategy[actionId] || 0 : 1 - (strategy.fold || 0);
+    return weight > 0.001 ? [{ combo, weight }] : [];
+  });
+
+// Hand classes with their weights, e.g. from parsed range notation.
+export const getHandWeightedCombos = (weights: Record<string, number>): WeightedCombo[] =>
+  Object.entries(weights).flatMap(([hand, weight]) => getHandCombos(hand).map(combo => ({ combo, weight })));
+
+interface PreparedCombo {
+  cards: [number, number];
+  mask: bigint;
+  weight: number;
+  hand: string;
+}
+
+const cardMask = (cards: number[]) => cards.reduce((mask, card) => mask | (1n << BigInt(card)), 0n);
+
+const prepareCombos = (combos: WeightedCombo[], blocked: bigint): PreparedCombo[] =>
+  combos.flatMap(({ combo, weight }) => {
+    const cards: [number, number] = [toCardIndex(combo.slice(0, 2)), toCardIndex(combo.slice(2, 4))];
+    const mask = cardMask(cards);
+    return (mask & blocked) === 0n && cards[0] !== cards[1] ? [{ cards, mask, weight, hand: getComboHand(combo) }] : [];
+  });
+
+const countCombinations = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 0; i < k; i++) result = result * (n - i) / (i + 1);
+  return Math.round(result);
+};
+
+// Returns an error message for requests that cannot be computed.
+export const validateEquityRequest = (request: EquityRequest): string | null => {
+  const known = [...request.board, ...request.dead];
+  if (request.board.length > BOARD_SIZE) return 'На борде не может быть больше 5 карт.';
+  if (new Set(known).size !== known.length) return 'Карты борда и мёртвые карты повторяются.';
+  const blocked = cardMask(known.map(toCardIndex));
+  const [first, second] = request.players.map(combos => prepareCombos(combos, blocked));
+  if (first.length === 0) return 'У игрока 1 нет комбинаций, не пересекающихся с бордом.';
+  if (second.length === 0) return 'У игрока 2 нет комбинаций, не пересекающихся с бордом.';
+  if (!first.some(a => second.some(b => (a.mask & b.mask) === 0n))) return 'Руки игроков всегда пересекаются.';
+  return null;
+};
+
+// Number of boards an exhaustive run evaluates.
+export const countExhaustiveRuns = (request: EquityRequest): number => {
+  const known = [...request.board, ...request.dead];
+  const blocked = cardMask(known.map(toCardIndex));
+  const [first, second] = request.players.map(combos => prepareCombos(combos, blocked));
+  let pairs = 0;
+  first.forEach(a => second.forEach(b => {
+    if ((a.mask & b.mask) === 0n) pairs++;
+  }));
+  return pairs * countCombinations(52 - known.length - 4, BOARD_SIZE - request.board.length);
+};
+
+// Picks an index with probability proportional to its weight.
+const createWeightedPicker = (combos: PreparedCombo[]) => {
+  const cumulative: number[] = [];
+  let total = 0;
+  combos.forEach(combo => {
+    total += combo.weight;
+    cumulative.push(total);
+  });
+  return () => {
+    const target = Math.random() * total;
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (cumulative[middle] > target) high = middle;
+      else low = middle + 1;
+    }
+    return combos[low];
+  };
+};
+
+export const createEquityRun = (request: EquityRequest): EquityRun => {
+  const board = request.board.map(toCardIndex);
+  const known = [...board, ...request.dead.map(toCardIndex)];
+  const blocked = cardMask(known);
+  const players = request.players.map(combos => prepareCombos(combos, blocked));
+  const available = Array.from({ length: 52 }, (_, card) => card).filter(card => !known.includes(card));
+  const missing = BOARD_SIZE - board.length;
+
+  // Seven-card hands of both players; the board part is filled per runout
+  const hands = [new Array<number>(7), new Array<number>(7)];
+  board.forEach((card, index) => {
+    hands[0][2 + index] = card;
+    hands[1][2 + index] = card;
+  });
+
+  const totals = [0, 0].map(() => ({ win: 0, tie: 0, weight: 0, hands: {} as Record<string, { share: number; weight: number }> }));
+  let runs = 0;
+
+  const record = (first: PreparedCombo, second: PreparedCombo, weight: number) => {
+    const scores = [evaluateHand(hands[0]), evaluateHand(hands[1])];
+    [first, second].forEach((combo, player) => {
+      const other = 1 - player;
+      const share = scores[player] > scores[other] ? 1 : scores[player] === scores[other] ? 0.5 : 0;
+      const total = totals[player];
+      if (share === 1) total.win += weight;
+      if (share === 0.5) total.tie += weight;
+      total.weight += weight;
+      const hand = total.hands[combo.hand] || (total.hands[combo.hand] = { share: 0, weight: 0 });
+      hand.share += share * weight;
+      hand.weight += weight;
+    });
+    runs++;
+  };
+
+  const setHoleCards = (first: PreparedCombo, second: PreparedCombo) => {
+    hands[0][0] = first.cards[0];
+    hands[0][1] = first.cards[1];
+    hands[1][0] = second.cards[0];
+    hands[1][1] = second.cards[1];
+  };
+
+  let progress = 0;
+  let step: (budget: number) => boolean;
+
+  if (request.mode === 'monte-carlo') {
+    const pick = players.map(createWeightedPicker);
+    const deck = [...available];
+    step = (budget) => {
+      const end = Math.min(request.iterations, runs + budget);
+      // Attempts are bounded so that ranges that mostly block each other still yield between steps
+      let attempts = 0;
+      while (runs < end && attempts++ < budget * 10) {
+        const first = pick[0]();
+        const second = pick[1]();
+        if ((first.mask & second.mask) !== 0n) continue; // card removal: redraw both
+        setHoleCards(first, second);
+        // Partial Fisher-Yates over the deck, skipping the hole cards
+        let filled = 0;
+        for (let i = 0; filled < missing; i++) {
+          const j = i + Math.floor(Math.random() * (deck.length - i));
+          [deck[i], deck[j]] = [deck[j], deck[i]];
+          const card = deck[i];
+          if (card === first.cards[0] || card === first.cards[1] || card === second.cards[0] || card === second.cards[1]) continue;
+          hands[0][2 + board.length + filled] = card;
+          hands[1][2 + board.length + filled] = card;
+          filled++;
+        }
+        record(first, second, 1);
+      }
+      progress = runs / request.iterations;
+      return runs >= request.iterations;
+    };
+  } else {
+    const pairs: [PreparedCombo, PreparedCombo][] = [];
+    players[0].forEach(a => players[1].forEach(b => {
+      if ((a.mask & b.mask) === 0n) pairs.push([a, b]);
+    }));
+    let pairIndex = 0;
+
+    // Every runout of the missing board cards from the cards left in the deck
+    const enumerate = (deck: number[], start: number, depth: number, first: PreparedCombo, second: PreparedCombo, weight: number) => {
+      if (depth === missing) {
+        record(first, second, weight);
+        return;
+      }
+      for (let i = start; i <= deck.length - (missing - depth); i++) {
+        hands[0][2 + board.length + depth] = deck[i];
+        hands[1][2 + board.length + depth] = deck[i];
+        enumerate(deck, i + 1, depth + 1, first, second, weight);
+      }
+    };
+
+    step = (budget) => {
+      const end = runs + budget;
+      while (pairIndex < pairs.length && runs < end) {
+        const [first, second] = pairs[pairIndex++];
+        setHoleCards(first, second);
+        const pairMask = first.mask | second.mask;
+        const deck = available.filter(card => (pairMask & (1n << BigInt(card))) === 0n);
+        enumerate(deck, 0, 0, first, second, first.weight * second.weight);
+      }
+      progress = pairs.length > 0 ? pairIndex / pairs.length : 1;
+      return pairIndex >= pairs.length;
+    };
+  }
+
+  const getResult = (): EquityResult => ({
+    players: totals.map(total => ({
+      equity: total.weight > 0 ? (total.win + total.tie / 2) / total.weight : 0,
+      win: total.weight > 0 ? total.win / total.weight : 0,
+      tie: total.weight > 0 ? total.tie / total.weight : 0,
+      hands: Object.fromEntries(Object.entries(total.hands).map(([hand, { share, weight }]) => [
+        hand,
+        { equity: share / weight, weight: weight / total.weight },
+      ])),
+    })) as [PlayerEquity, PlayerEquity],
+    progress,
+    runs,
+  });
+
+  return { step, getResult };
+};
@@ -0,0 +1,104 @@
+import { RANK_INDEX, RANKS, SUITS } from "@/lib/poker";
+
+// Evaluator for the best five-card hand out of five to seven cards. Cards are
+// numbers, rank * 4 + suit with rank 0 = deuce ... 12 = ace, so the hot loops
+// of the equity engine do not work with strings. A higher score is a better hand.
+
+export const HAND_CATEGORIES = [
+  'high-card', 'pair', 'two-pair', 'trips', 'straight', 'flush', 'full-house', 'quads', 'straight-flush',
+] as const;
+
+export type HandCategory = typeof HAND_CATEGORIES[number];
+
+// Scores of one category stay below the next one: kickers take at most five base-13 digits
+const CATEGORY_SIZE = 13 ** 5;
+
+export const toCardIndex = (card: string): number =>
+  (RANKS.length - 1 - RANK_INDEX[card[0]]) * 4 + SUITS.indexOf(card[1]);
+
+export const toCardName = (index: number): string =>
+  `${RANKS[RANKS.length - 1 - (index >> 2)]}${SUITS[index & 3]}`;
+
+// Highest card of the straight contained in a rank mask, -1 if there is none.
+const STRAIGHT_HIGH = new Int8Array(1 << 13).map((_, mask) => {
+  for (let high = 12; high >= 4; high--) {
+    if (((mask >> (high - 4)) & 0x1f) === 0x1f) return high;
+  }
+  return (mask & 0x100f) === 0x100f ? 3 : -1; // A-2-3-4-5
+});
+
+// Highest rank of a straight made from the ranks of the mask (bit per rank), -1 if none.
+export const getStraightHigh = (rankMask: number): number => STRAIGHT_HIGH[rankMask];
+
+// Scratch buffers reused by every call
+const rankCounts = new Uint8Array(13);
+const suitMasks = new Uint16Array(4);
+const suitCounts = new Uint8Array(4);
+
+// The highest `count` ranks of the mask as base-13 digits.
+const topRanks = (mask: number, count: number) => {
+  let value = 0;
+  for (let rank = 12; rank >= 0 && count > 0; rank--) {
+    if (mask & (1 << rank)) {
+      value = value * 13 + rank;
+      count--;
+    }
+  }
+  return value;
+};
+
+export const evaluateHand = (cards: ArrayLike<number>): number => {
+  rankCounts.fill(0);
+  suitMasks.fill(0);
+  suitCounts.fill(0);
+  let rankMask = 0;
+  for (let i = 0; i < cards.length; i++) {
+    const rank = cards[i] >> 2;
+    const suit = cards[i] & 3;
+    rankCounts[rank]++;
+    suitMasks[suit] |= 1 << rank;
+    suitCounts[suit]++;
+    rankMask |= 1 << rank;
+  }
+
+  // With seven cards at most one suit can have five of them
+  for (let suit = 0; suit < 4; suit++) {
+    if (suitCounts[suit] < 5) continue;
+    const straightFlush = STRAIGHT_HIGH[suitMasks[suit]];
+    if (straightFlush >= 0) return 8 * CATEGORY_SIZE + straightFlush;
+    return 5 * CATEGORY_SIZE + topRanks(suitMasks[suit], 5);
+  }
+
+  let quads = -1;
+  let trips = -1;
+  let secondTrips = -1;
+  let pair = -1;
+  let secondPair = -1;
+  for (let rank = 12; rank >= 0; rank--) {
+    const count = rankCounts[rank];
+    if (count === 4) {
+      quads = rank;
+    } else if (count === 3) {
+      if (trips < 0) trips = rank;
+      else if (secondTrips < 0) secondTrips = rank;
+    } else if (count === 2) {
+      if (pair < 0) pair = rank;
+      else if (secondPair < 0) secondPair = rank;
+    }
+  }
+
+  if (quads >= 0) return 7 * CATEGORY_SIZE + quads * 13 + topRanks(rankMask & ~(1 << quads), 1);
+  if (trips >= 0 && (secondTrips >= 0 || pair >= 0)) {
+    return 6 * CATEGORY_SIZE + trips * 13 + Math.max(secondTrips, pair);
+  }
+  const straight = STRAIGHT_HIGH[rankMask];
+  if (straight >= 0) return 4 * CATEGORY_SIZE + straight;
+  if (trips >= 0) return 3 * CATEGORY_SIZE + trips * 169 + topRanks(rankMask & ~(1 << trips), 2);
+  if (secondPair >= 0) {
+    return 2 * CATEGORY_SIZE + pair * 169 + secondPair * 13 + topRanks(rankMask & ~(1 << pair) & ~(1 << secondPair), 1);
+  }
+  if (pair >= 0) return CATEGORY_SIZE + pair * 2197 + topRanks(rankMask & ~(1 << pair), 3);
+  return topRanks(rankMask, 5);
+};
+
+export const getHandCategory = (score: number): HandCategory => HAND_CATEGORIES[Math.floor(score / CATEGORY_SIZE)];
@@ -0,0 +1,71 @@
+import { Range } from "@/contexts/RangeContext";
+import { ALL_HANDS, TOTAL_COMBOS, getHandCombos } from "@/lib/poker";
+
+// Orderings of the 169 starting hands, strongest first, used to fill a range
+// with the top N% of hands.
+
+export type HandRankingKind = 'equity' | 'sklansky' | 'custom';
+
+// All-in equity in percent against a random hand (Monte Carlo, 400k boards per hand).
+export const PREFLOP_EQUITY: Record<string, number> = {
+  AA: 85.2, AKs: 67, AQs: 66.2, AJs: 65.3, ATs: 64.5, A9s: 62.7, A8s: 61.8, A7s: 60.7, A6s: 59.7, A5s: 59.8, A4s: 59.1, A3s: 58.5, A2s: 57.3, AKo: 65.2, AQo: 64.7, AJo: 63.7, ATo: 62.8, A9o: 60.7, A8o: 59.9, A7o: 58.8, A6o: 57.9, A5o: 57.6, A4o: 56.7, A3o: 55.8, A2o: 55,
+  KK: 82.4, KQs: 63.3, KJs: 62.6, KTs: 61.6, K9s: 60.2, K8s: 58.3, K7s: 57.7, K6s: 56.8, K5s: 56, K4s: 55, K3s: 54, K2s: 52.9, KQo: 61.4, KJo: 60.6, KTo: 59.7, K9o: 57.8, K8o: 55.9, K7o: 55.2, K6o: 54.3, K5o: 53.4, K4o: 52.4, K3o: 51.5, K2o: 50.5,
+  QQ: 80, QJs: 60.2, QTs: 59.5, Q9s: 57.6, Q8s: 56, Q7s: 54.3, Q6s: 53.7, Q5s: 52.8, Q4s: 51.6, Q3s: 51.1, Q2s: 50.3, QJo: 58.4, QTo: 57.2, Q9o: 55.4, Q8o: 53.6, Q7o: 51.9, Q6o: 50.8, Q5o: 50.3, Q4o: 49.3, Q3o: 48.1, Q2o: 47.2,
+  JJ: 77.3, JTs: 57.6, J9s: 55.4, J8s: 53.8, J7s: 52.1, J6s: 50.7, J5s: 50.1, J4s: 49.1, J3s: 48.3, J2s: 47.1, JTo: 55.3, J9o: 53.5, J8o: 51.3, J7o: 49.5, J6o: 47.8, J5o: 47.4, J4o: 46.1, J3o: 45.2, J2o: 44.3,
+  TT: 75, T9s: 53.7, T8s: 52.1, T7s: 50.8, T6s: 48.9, T5s: 47.2, T4s: 46.3, T3s: 45.8, T2s: 44.9, T9o: 51.4, T8o: 49.6, T7o: 47.8, T6o: 46.3, T5o: 44.2, T4o: 43.6, T3o: 42.9, T2o: 41.7,
+  '99': 72.1, '98s': 50.9, '97s': 49, '96s': 47.7, '95s': 45.9, '94s': 43.7, '93s': 43.3, '92s': 42.4, '98o': 48.1, '97o': 46.3, '96o': 44.4, '95o': 42.9, '94o': 40.6, '93o': 40, '92o': 39,
+  '88': 69.2, '87s': 48, '86s': 46.3, '85s': 44.6, '84s': 42.8, '83s': 41, '82s': 40.2, '87o': 45.1, '86o': 43.7, '85o': 41.5, '84o': 39.4, '83o': 37.7, '82o': 36.6,
+  '77': 66.2, '76s': 45.2, '75s': 43.8, '74s': 41.6, '73s': 40.1, '72s': 38.2, '76o': 42.5, '75o': 40.5, '74o': 38.6, '73o': 36.4, '72o': 34.4,
+  '66': 63.4, '65s': 42.9, '64s': 41.6, '63s': 39.5, '62s': 37.4, '65o': 39.8, '64o': 37.9, '63o': 36.4, '62o': 34.1,
+  '55': 60.3, '54s': 41.4, '53s': 39.7, '52s': 37.9, '54o': 38, '53o': 36.1, '52o': 34.2,
+  '44': 56.9, '43s': 38.8, '42s': 36.9, '43o': 35.5, '42o': 33.1,
+  '33': 53.6, '32s': 35.9, '32o': 32.4,
+  '22': 50.4,
+};
+
+// Sklansky-Malmuth groups 1-8, every other hand is in group 9.
+export const SKLANSKY_GROUPS: string[][] = [
+  ['AA', 'KK', 'QQ', 'JJ', 'AKs'],
+  ['TT', 'AQs', 'AJs', 'KQs', 'AKo'],
+  ['99', 'JTs', 'QJs', 'KJs', 'ATs', 'AQo'],
+  ['T9s', 'KQo', '88', 'QTs', '98s', 'J9s', 'AJo', 'KTs'],
+  ['77', '87s', 'Q9s', 'T8s', 'KJo', 'QJo', 'JTo', '76s', '97s', 'A9s', 'A8s', 'A7s', 'A6s', 'A5s', 'A4s', 'A3s', 'A2s', '65s'],
+  ['66', 'ATo', '55', '86s', 'KTo', 'QTo', '54s', 'K9s', 'J8s', '75s'],
+  ['44', 'J9o', '64s', 'T9o', '53s', '33', '98o', '43s', '22', 'K8s', 'K7s', 'K6s', 'K5s', 'K4s', 'K3s', 'K2s', 'T7s', 'Q8s'],
+  ['87o', 'A9o', 'Q9o', '76o', '42s', '32s', '96s', '85s', 'J8o', 'J7s', '65o', '54o', '74s', 'K9o', 'T8o'],
+];
+
+const byEquity = (a: string, b: string) => PREFLOP_EQUITY[b] - PREFLOP_EQUITY[a];
+
+export const getEquityRanking = (): string[] => [...ALL_HANDS].sort(byEquity);
+
+// Appends the hands missing from a partial ordering, strongest by equity first.
+export const completeRanking = (hands: string[]): string[] => {
+  const ranked = [...new Set(hands)];
+  const listed = new Set(ranked);
+  return [...ranked, ...getEquityRanking().filter(hand => !listed.has(hand))];
+};
+
+// Groups in order, hands within a group by equity.
+export const getSklanskyRanking = (): string[] =>
+  completeRanking(SKLANSKY_GROUPS.flatMap(group => [...group].sort(byEquity)));
+
+// The first hands of the ranking covering the given share of all combos. The hand
+// that crosses the boundary is taken with the frequency that hits it exactly.
+export const buildTopRange = (ranking: string[], percent: number, actionId: string): Pick<Range, 'hands' | 'mixes'> => {
+  const hands: Record<string, string> = {};
+  const mixes: Record<string, Record<string, number>> = {};
+  let remaining = TOTAL_COMBOS * Math.min(100, Math.max(0, percent)) / 100;
+  for (const hand of ranking) {
+    if (remaining <= 0) break;
+    const combos = getHandCombos(hand).length;
+    if (remaining >= combos) {
+      hands[hand] = actionId;
+    } else {
+      const frequency = Math.round(remaining / combos * 1000) / 10;
+      if (frequency > 0) mixes[hand] = { [actionId]: frequency };
+    }
+    remaining -= combos;
+  }
+  return { hands, ...(Object.keys(mixes).length > 0 && { mixes }) };
+};
@@ -0,0 +1,257 @@
+import { WeightedCombo } from "@/lib/equity";
+import { Flop } from "@/lib/boardTextures";
+import { SUITS, getComboHand, getHandCombos } from "@/lib/poker";
+import { HAND_CATEGORIES, evaluateHand, getHandCategory, getStraightHigh, toCardIndex } from "@/lib/handEvaluator";
+
+// What every combo of a range makes on a board. The made hand is what the hole
+// cards add to the board (a pair on the board alone is not a pair of the combo),
+// draws are counted separately and only before the river, so a combo can be both
+// top pair and a flush draw. Air is a combo with neither.
+
+export const MADE_HAND_CATEGORIES = [
+  'straight-flush', 'quads', 'full-house', 'flush', 'straight', 'set', 'trips', 'two-pair',
+  'overpair', 'top-pair', 'underpair', 'middle-pair', 'bottom-pair', 'high-card',
+] as const;
+
+export const DRAW_CATEGORIES = ['combo-draw', 'flush-draw', 'oesd', 'gutshot'] as const;
+
+export type MadeHandCategory = typeof MADE_HAND_CATEGORIES[number];
+export type DrawCategory = typeof DRAW_CATEGORIES[number];
+export type HandStrengthCategory = MadeHandCategory | DrawCategory | 'air';
+
+export const HAND_STRENGTH_LABELS: Record<HandStrengthCategory, string> = {
+  'straight-flush': 'Стрит-флеш',
+  'quads': 'Каре',
+  'full-house': 'Фулл-хаус',
+  'flush': 'Флеш',
+  'straight': 'Стрит',
+  'set': 'Сет',
+  'trips': 'Трипс',
+  'two-pair': 'Две пары',
+  'overpair': 'Оверпара',
+  'top-pair': 'Топ-пара',
+  'underpair': 'Карманная пара ниже топа',
+  'middle-pair': 'Средняя пара',
+  'bottom-pair': 'Нижняя пара',
+  'high-card': 'Без пары',
+  'combo-draw': 'Комбо-дро',
+  'flush-draw': 'Флеш-дро',
+  'oesd': 'Двустороннее стрит-дро',
+  'gutshot': 'Гатшот',
+  'air': 'Воздух',
+};
+
+export interface ComboStrength {
+  made: MadeHandCategory;
+  draw: DrawCategory | null;
+}
+
+export interface CategoryBreakdown {
+  weight: number; // combos, counting mixed ones by their frequency
+  combos: string[];
+}
+
+export interface HandStrengthBreakdown {
+  total: number; // weighted combos that do not conflict with the board
+  categories: Record<HandStrengthCategory, CategoryBreakdown>;
+}
+
+export interface FlopSetCategory {
+  share: number; // 0..1 of the range, averaged over the flops by their weight
+  hands: Record<string, number>; // 0..1 of the combos of every hand class
+}
+
+export interface FlopSetBreakdown {
+  total: number; // average weighted combos left by the flops
+  categories: Record<HandStrengthCategory, FlopSetCategory>;
+}
+
+const ALL_CATEGORIES: HandStrengthCategory[] = [...MADE_HAND_CATEGORIES, ...DRAW_CATEGORIES, 'air'];
+
+// Categories of the evaluator that are reported as they are when the hole cards take part
+const STRONG_CATEGORIES: MadeHandCategory[] = ['straight-flush', 'quads', 'full-house', 'flush', 'straight'];
+
+const getPairCategory = (hole: number[], board: number[]): MadeHandCategory => {
+  const boardCounts = new Array<number>(13).fill(0);
+  board.forEach(card => boardCounts[card >> 2]++);
+  const boardRanks = boardCounts
+    .map((count, rank) => (count > 0 ? rank : -1))
+    .filter(rank => rank >= 0)
+    .reverse();
+  const [first, second] = hole.map(card => card >> 2);
+
+  if (first === second) {
+    if (boardCounts[first] > 0) return 'set';
+    return first > boardRanks[0] ? 'overpair' : 'underpair';
+  }
+
+  const matched = [first, second].filter(rank => boardCounts[rank] > 0);
+  if (matched.length === 2) return 'two-pair';
+  if (matched.length === 0) return 'high-card';
+  if (boardCounts[matched[0]] > 1) return 'trips';
+  const position = boardRanks.indexOf(matched[0]);
+  if (position === 0) return 'top-pair';
+  return position === boardRanks.length - 1 ? 'bottom-pair' : 'middle-pair';
+};
+
+const getDraw = (hole: number[], board: number[]): DrawCategory | null => {
+  const cards = [...hole, ...board];
+  const isFlushDraw = [0, 1, 2, 3].some(suit =>
+    cards.filter(card => (card & 3) === suit).length === 4 && hole.some(card => (card & 3) === suit)
+  );
+
+  // Ranks that complete a straight the board alone would not make
+  const rankMask = cards.reduce((mask, card) => mask | (1 << (card >> 2)), 0);
+  const boardMask = board.reduce((mask, card) => mask | (1 << (card >> 2)), 0);
+  let straightOuts = 0;
+  for (let rank = 0; rank < 13; rank++) {
+    const bit = 1 << rank;
+    if (!(rankMask & bit) && getStraightHigh(rankMask | bit) >= 0 && getStraightHigh(boardMask | bit) < 0) {
+      straightOuts++;
+    }
+  }
+
+  if (isFlushDraw && straightOuts > 0) return 'combo-draw';
+  if (isFlushDraw) return 'flush-draw';
+  if (straightOuts >= 2) return 'oesd';
+  return straightOuts === 1 ? 'gutshot' : null;
+};
+
+// Cards are indexes of the evaluator; the board holds three to five of them.
+export const classifyCombo = (hole: number[], board: number[]): ComboStrength => {
+  const score = evaluateHand([...hole, ...board]);
+  const category = getHandCategory(score);
+  const playsBoard = board.length === 5 && evaluateHand(board) === score;
+  const made = STRONG_CATEGORIES.includes(category as MadeHandCategory) && !playsBoard
+    ? category as MadeHandCategory
+    : getPairCategory(hole, board);
+  const isComplete = HAND_CATEGORIES.indexOf(category) >= HAND_CATEGORIES.indexOf('straight') && !playsBoard;
+  const draw = board.length < 5 && !isComplete ? getDraw(hole, board) : null;
+  return { made, draw };
+};
+
+// Categories of a combo, or null when it conflicts with the board.
+const getComboCategories = (combo: string, boardCards: number[]): HandStrengthCategory[] | null => {
+  const hole = [toCardIndex(combo.slice(0, 2)), toCardIndex(combo.slice(2, 4))];
+  if (hole.some(card => boardCards.includes(card))) return null;
+  const { made, draw } = classifyCombo(hole, boardCards);
+  const categories: HandStrengthCategory[] = [made];
+  if (draw) categories.push(draw);
+  if (made === 'high-card' && !draw) categories.push('air');
+  return categories;
+};
+
+// Calls back with the categories of every combo that does not conflict with the board.
+const forEachComboCategories = (
+  combos: WeightedCombo[],
+  board: string[],
+  callback: (combo: WeightedCombo, categories: HandStrengthCategory[]) => void
+) => {
+  const boardCards = board.map(toCardIndex);
+  combos.forEach(item => {
+    const categories = getComboCategories(item.combo, boardCards);
+    if (categories) callback(item, categories);
+  });
+};
+
+const permute = <T,>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) => permute([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+
+// Every way to relabel the suits, as suit -> suit
+const SUIT_MAPS: Record<string, string>[] = permute(SUITS).map(suits =>
+  Object.fromEntries(SUITS.map((suit, index) => [suit, suits[index]]))
+);
+
+const mapComboSuits = (combo: string, suitMap: Record<string, string>) =>
+  `${combo[0]}${suitMap[combo[1]]}${combo[2]}${suitMap[combo[3]]}`;
+
+// Whether every hand of the range has all its combos at the same weight, so that
+// relabelling the suits of a board changes nothing.
+const isSuitSymmetric = (combos: WeightedCombo[]) => {
+  const hands = new Map<string, number[]>();
+  combos.forEach(({ combo, weight }) => {
+    const hand = getComboHand(combo);
+    hands.set(hand, [...(hands.get(hand) || []), weight]);
+  });
+  return [...hands.entries()].every(([hand, weights]) =>
+    weights.length === getHandCombos(hand).length && weights.every(weight => weight === weights[0])
+  );
+};
+
+export const getHandStrengthBreakdown = (combos: WeightedCombo[], board: string[]): HandStrengthBreakdown => {
+  const categories = Object.fromEntries(
+    ALL_CATEGORIES.map(category => [category, { weight: 0, combos: [] }])
+  ) as Record<HandStrengthCategory, CategoryBreakdown>;
+  let total = 0;
+
+  forEachComboCategories(combos, board, ({ combo, weight }, comboCategories) => {
+    total += weight;
+    comboCategories.forEach(category => {
+      categories[category].weight += weight;
+      categories[category].combos.push(combo);
+    });
+  });
+
+  return { total, categories };
+};
+
+// The breakdown over a set of flops, e.g. a representative subset of a texture. A flop
+// is kept in the suits of its class, so it is averaged over every relabelling of them:
+// a range with suit-specific combos meets, say, a monotone flop in each of the four
+// suits. A combo on a relabelled flop is the combo relabelled back on the flop itself,
+// so the combos are classified once per flop; a range without suit-specific weights
+// gives the same result in every suit and is taken on the flop alone.
+export const getFlopSetBreakdown = (combos: WeightedCombo[], flops: Flop[]): FlopSetBreakdown => {
+  const shares = Object.fromEntries(ALL_CATEGORIES.map(category => [category, 0])) as Record<HandStrengthCategory, number>;
+  const handWeights = Object.fromEntries(ALL_CATEGORIES.map(category => [category, {}])) as Record<HandStrengthCategory, Record<string, number>>;
+  const handTotals: Record<string, number> = {};
+  const flopsWeight = flops.reduce((sum, flop) => sum + flop.weight, 0);
+  let total = 0;
+  const suitMaps = isSuitSymmetric(combos) ? SUIT_MAPS.slice(0, 1) : SUIT_MAPS;
+
+  flops.forEach(flop => {
+    const boardCards = flop.cards.map(toCardIndex);
+    const classified = new Map<string, HandStrengthCategory[] | null>();
+    // Relabellings giving the same cards are the same deal; each distinct deal is equally likely
+    const deals = new Map<string, Record<string, string>>();
+    suitMaps.forEach(suitMap => {
+      const key = flop.cards.map(card => `${card[0]}${suitMap[card[1]]}`).sort().join();
+      if (!deals.has(key)) deals.set(key, suitMap);
+    });
+    const dealShare = flop.weight / flopsWeight / deals.size;
+
+    deals.forEach(suitMap => {
+      const inverse = Object.fromEntries(Object.entries(suitMap).map(([from, to]) => [to, from]));
+      const dealCategories: Partial<Record<HandStrengthCategory, number>> = {};
+      let dealTotal = 0;
+      combos.forEach(({ combo, weight }) => {
+        const onFlop = mapComboSuits(combo, inverse);
+        if (!classified.has(onFlop)) classified.set(onFlop, getComboCategories(onFlop, boardCards));
+        const comboCategories = classified.get(onFlop);
+        if (!comboCategories) return;
+        const hand = getComboHand(combo);
+        dealTotal += weight;
+        handTotals[hand] = (handTotals[hand] || 0) + weight * dealShare;
+        comboCategories.forEach(category => {
+          dealCategories[category] = (dealCategories[category] || 0) + weight;
+          handWeights[category][hand] = (handWeights[category][hand] || 0) + weight * dealShare;
+        });
+      });
+      total += dealTotal * dealShare;
+      if (dealTotal > 0) {
+        Object.entries(dealCategories).forEach(([category, weight]) => {
+          shares[category as HandStrengthCategory] += weight / dealTotal * dealShare;
+        });
+      }
+    });
+  });
+
+  const categories = Object.fromEntries(ALL_CATEGORIES.map(category => [category, {
+    share: shares[category],
+    hands: Object.fromEntries(Object.entries(handWeights[category]).map(([hand, weight]) => [hand, weight / handTotals[hand]])),
+  }])) as Record<HandStrengthCategory, FlopSetCategory>;
+
+  return { total, categories };
+};
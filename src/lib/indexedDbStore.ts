@@ -0,0 +1,99 @@
+// Minimal IndexedDB key-value store grouped by collection. Every record is a
+// separate entry, so changing one record writes only that record; the order of
+// records in a collection is kept in a separate list.
+
+const DB_NAME = 'poker-ranges';
+const DB_VERSION = 1;
+const RECORDS_STORE = 'records';
+const ORDER_STORE = 'order';
+
+export interface StoredRecord {
+  key: string;
+  value: unknown;
+}
+
+export interface RecordChanges {
+  put: StoredRecord[];
+  remove: string[];
+  order?: string[]; // new order of record keys, when it changed
+}
+
+export interface IndexedDbStore {
+  loadAll: () => Promise<Record<string, StoredRecord[]>>;
+  apply: (collection: string, changes: RecordChanges) => Promise<void>;
+}
+
+const entryKey = (collection: string, key: string) => `${collection}/${key}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Resolves to null when IndexedDB is not available (e.g. some private browsing modes).
+export const openIndexedDbStore = async (): Promise<IndexedDbStore | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+
+  let db: IDBDatabase;
+  try {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const upgradeDb = request.result;
+      if (!upgradeDb.objectStoreNames.contains(RECORDS_STORE)) {
+        upgradeDb.createObjectStore(RECORDS_STORE).createIndex('collection', 'collection');
+      }
+      if (!upgradeDb.objectStoreNames.contains(ORDER_STORE)) {
+        upgradeDb.createObjectStore(ORDER_STORE);
+      }
+    };
+    db = await requestToPromise(request);
+  } catch (error) {
+    console.error("IndexedDB is not available:", error);
+    return null;
+  }
+
+  const loadAll = async () => {
+    const transaction = db.transaction([RECORDS_STORE, ORDER_STORE], 'readonly');
+    const [entries, orderKeys, orders] = await Promise.all([
+      requestToPromise(transaction.objectStore(RECORDS_STORE).getAll()) as Promise<Array<{ collection: string; key: string; value: unknown }>>,
+      requestToPromise(transaction.objectStore(ORDER_STORE).getAllKeys()),
+      requestToPromise(transaction.objectStore(ORDER_STORE).getAll()) as Promise<string[][]>,
+    ]);
+
+    const byCollection: Record<string, Map<string, unknown>> = {};
+    entries.forEach(({ collection, key, value }) => {
+      if (!byCollection[collection]) byCollection[collection] = new Map();
+      byCollection[collection].set(key, value);
+    });
+
+    const result: Record<string, StoredRecord[]> = {};
+    orderKeys.forEach((collection, index) => {
+      const records = byCollection[String(collection)] || new Map();
+      result[String(collection)] = orders[index]
+        .filter(key => records.has(key))
+        .map(key => ({ key, value: records.get(key) }));
+    });
+    return result;
+  };
+
+  const apply = (collection: string, changes: RecordChanges) => {
+    const transaction = db.transaction([RECORDS_STORE, ORDER_STORE], 'readwrite');
+    const records = transaction.objectStore(RECORDS_STORE);
+    changes.put.forEach(({ key, value }) => records.put({ collection, key, value }, entryKey(collection, key)));
+    changes.remove.forEach(key => records.delete(entryKey(collection, key)));
+    if (changes.order) {
+      transaction.objectStore(ORDER_STORE).put(changes.order, collection);
+    }
+    return transactionDone(transaction);
+  };
+
+  return { loadAll, apply };
+};
@@ -0,0 +1,85 @@
+import { ALL_HANDS, TOTAL_COMBOS, getHandCombos } from "@/lib/poker";
+import { Range } from "@/contexts/RangeContext";
+import { getDominantAction } from "@/lib/rangeStrategy";
+
+// Scoring of a matrix drawn from memory against the range. A cell is expected to be
+// painted with the action most of its combos take and counts with the number of its
+// combos, so a pair weighs 6, a suited hand 4 and an offsuit hand 12. The score is
+// the share of combos classified correctly averaged over the actions of the range,
+// otherwise the folded majority of the matrix would outweigh the range itself.
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+// How a cell of the drawn matrix differs from the range
+export type CellMistake = 'missed' | 'extra' | 'wrong';
+
+export const CELL_MISTAKE_LABELS: Record<CellMistake, string> = {
+  missed: 'Пропущена',
+  extra: 'Лишняя',
+  wrong: 'Не то действие',
+};
+
+// Outline colors of the review overlay
+export const CELL_MISTAKE_CLASSES: Record<CellMistake, string> = {
+  missed: 'ring-sky-400',
+  extra: 'ring-red-500',
+  wrong: 'ring-amber-400',
+};
+
+export interface ActionScore {
+  actionId: string;
+  expected: number; // Combos the range plays with the action
+  correct: number; // Of those, combos painted with it
+  extra: number; // Combos painted with it that the range plays otherwise
+}
+
+export interface MatrixScore {
+  score: number; // 0..1
+  correctCombos: number; // Out of all 1326
+  isPerfect: boolean;
+  mistakes: Record<string, CellMistake>; // Hand -> mistake, correct cells are left out
+  actions: ActionScore[]; // Fold first, then by expected combos
+}
+
+// A cell is wrong when painted otherwise than its dominant action: missed when it was
+// left folded, extra when it should have been folded, a wrong action otherwise.
+const getCellMistake = (painted: string, expected: string): CellMistake | null => {
+  if (painted === expected) return null;
+  if (painted === 'fold') return 'missed';
+  if (expected === 'fold') return 'extra';
+  return 'wrong';
+};
+
+export const scoreMatrix = (range: RangeLike, matrix: Record<string, string>): MatrixScore => {
+  const actions: Record<string, ActionScore> = {};
+  const getAction = (actionId: string) =>
+    actions[actionId] || (actions[actionId] = { actionId, expected: 0, correct: 0, extra: 0 });
+  const mistakes: Record<string, CellMistake> = {};
+  let correctCombos = 0;
+
+  ALL_HANDS.forEach(hand => {
+    const painted = matrix[hand] || 'fold';
+    const expected = getDominantAction(range, hand);
+    const combos = getHandCombos(hand).length;
+    getAction(expected).expected += combos;
+    const mistake = getCellMistake(painted, expected);
+    if (mistake) {
+      mistakes[hand] = mistake;
+      getAction(painted).extra += combos;
+    } else {
+      getAction(expected).correct += combos;
+      correctCombos += combos;
+    }
+  });
+
+  const played = Object.values(actions).filter(action => action.expected > 0);
+  return {
+    score: played.reduce((sum, action) => sum + action.correct / action.expected, 0) / played.length,
+    correctCombos,
+    isPerfect: correctCombos === TOTAL_COMBOS,
+    mistakes,
+    actions: Object.values(actions).sort((a, b) =>
+      Number(b.actionId === 'fold') - Number(a.actionId === 'fold') || b.expected - a.expected
+    ),
+  };
+};
@@ -0,0 +1,620 @@
+import { ActionButton, Folder, Range } from "@/contexts/RangeContext";
+import { StoredChart } from "@/components/Chart";
+import { IndexedDbStore, StoredRecord, openIndexedDbStore } from "@/lib/indexedDbStore";
+import { TableSpot } from "@/lib/tableSpots";
+
+// Single entry point for everything the app keeps in the browser. The stored
+// data carries a schema version: on start older data is brought up to date by
+// the ordered migrations below. Every entity is validated on load, and
+// values that cannot be read are moved to quarantine instead of being dropped.
+
+export interface StoredTraining {
+  id: string;
+  name: string;
+  ranges: string[];
+  [key: string]: unknown;
+}
+
+// One answer of a session; time is the reaction time in ms
+export interface StoredAnswer {
+  hand: string;
+  rangeId: string;
+  action?: string; // Chosen action id, 'timeout' or 'mix' for an entered mix; missing in early sessions
+  correctAction?: string; // Most frequent action of the hand
+  correct: boolean;
+  score?: number; // 0..1, a partially correct answer counting in part; missing in early sessions
+  time: number;
+}
+
+export interface StoredSessionStat {
+  trainingId: string;
+  timestamp: number;
+  duration: number;
+  totalQuestions: number;
+  correctAnswers: number;
+  score?: number; // Sum of the answer scores, a partially correct answer counting in part
+  answers?: StoredAnswer[];
+  [key: string]: unknown;
+}
+
+// Saved state of a range, see rangeVersions
+export interface StoredRangeVersion {
+  id: string;
+  rangeId: string;
+  timestamp: number;
+  isAuto: boolean; // taken automatically before a significant edit
+  note?: string;
+  range: Range;
+}
+
+// What spaced-repetition training remembers about a hand of a range, see spacedRepetition
+export interface StoredHandMemory {
+  id: string; // `${rangeId}:${hand}`
+  rangeId: string;
+  hand: string;
+  ease: number;
+  interval: number; // days
+  streak: number; // correct answers in a row
+  lastSeen: number;
+  due: number;
+}
+
+export interface PersistedCollections {
+  folders: Folder[];
+  actionButtons: ActionButton[];
+  charts: StoredChart[];
+  trainings: StoredTraining[];
+  statistics: StoredSessionStat[];
+  rangeVersions: StoredRangeVersion[];
+  handMemory: StoredHandMemory[];
+}
+
+export type CollectionName = keyof PersistedCollections;
+
+export const COLLECTIONS: CollectionName[] = ['folders', 'actionButtons', 'charts', 'trainings', 'statistics', 'rangeVersions', 'handMemory'];
+
+export const STORAGE_KEYS: Record<CollectionName, string> = {
+  folders: 'poker-ranges-folders',
+  actionButtons: 'poker-ranges-actions',
+  charts: 'userCharts',
+  trainings: 'training-sessions',
+  statistics: 'training-statistics',
+  rangeVersions: 'poker-range-versions',
+  handMemory: 'training-hand-memory',
+};
+
+export const SCHEMA_VERSION_KEY = 'poker-schema-version';
+export const QUARANTINE_KEY = 'poker-quarantine';
+
+// --- Validation ---
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown) =>
+  isObject(value) && Object.values(value).every(item => typeof item === 'string');
+
+const isRange = (value: unknown): value is Range =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && isStringRecord(value.hands)
+  && (value.combos === undefined || isStringRecord(value.combos))
+  && (value.mixes === undefined || (isObject(value.mixes) && Object.values(value.mixes).every(isObject)));
+
+export const VALIDATORS: Record<CollectionName, (value: unknown) => boolean> = {
+  folders: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+    && Array.isArray(value.ranges) && value.ranges.every(isRange),
+  actionButtons: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && (
+      (value.type === 'simple' && typeof value.color === 'string')
+      || (value.type === 'weighted' && typeof value.action1Id === 'string' && typeof value.action2Id === 'string'
+        && typeof value.weight === 'number')
+    ),
+  charts: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && Array.isArray(value.buttons)
+    && value.buttons.every(button => isObject(button) && typeof button.id === 'string' && typeof button.linkedItem === 'string'),
+  trainings: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+    && Array.isArray(value.ranges) && value.ranges.every(id => typeof id === 'string'),
+  statistics: (value) =>
+    isObject(value) && typeof value.trainingId === 'string' && typeof value.timestamp === 'number'
+    && typeof value.duration === 'number' && typeof value.totalQuestions === 'number' && typeof value.correctAnswers === 'number'
+    && (value.score === undefined || typeof value.score === 'number')
+    && (value.answers === undefined || (Array.isArray(value.answers) && value.answers.every(answer =>
+      isObject(answer) && typeof answer.hand === 'string' && typeof answer.rangeId === 'string'
+      && (answer.action === undefined || typeof answer.action === 'string')
+      && (answer.correctAction === undefined || typeof answer.correctAction === 'string')
+      && typeof answer.correct === 'boolean' && typeof answer.time === 'number'
+      && (answer.score === undefined || typeof answer.score === 'number')))),
+  rangeVersions: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.rangeId === 'string' && typeof value.timestamp === 'number'
+    && typeof value.isAuto === 'boolean' && (value.note === undefined || typeof value.note === 'string') && isRange(value.range),
+  handMemory: (value) =>
+    isObject(value) && typeof value.id === 'string' && typeof value.rangeId === 'string' && typeof value.hand === 'string'
+    && ['ease', 'interval', 'streak', 'lastSeen', 'due'].every(key => typeof value[key] === 'number'),
+};
+
+// --- Quarantine ---
+
+export interface QuarantineEntry {
+  key: string;
+  reason: string;
+  data: string; // the raw stored text
+  timestamp: number;
+}
+
+export const getQuarantine = (): QuarantineEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const quarantine = (key: string, data: string, reason: string) => {
+  console.error(`Moved unreadable data of ${key} to quarantine: ${reason}`);
+  const entries = [...getQuarantine(), { key, reason, data, timestamp: Date.now() }];
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    // A full storage must not keep the app from starting; the data is left in the log
+    console.error("Failed to save quarantine:", error, data);
+  }
+};
+
+export const clearQuarantine = () => {
+  localStorage.removeItem(QUARANTINE_KEY);
+};
+
+// Parses a stored value; unparseable text is quarantined and removed so the app can start over.
+const readJson = (key: string): { found: boolean; value?: unknown } => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return { found: false };
+  try {
+    return { found: true, value: JSON.parse(raw) };
+  } catch {
+    quarantine(key, raw, 'Некорректный JSON');
+    localStorage.removeItem(key);
+    return { found: false };
+  }
+};
+
+// --- Storage backend ---
+// Collections live in IndexedDB when the browser provides it and in localStorage
+// otherwise. They are read once by initStorage() into an in-memory cache, so that
+// loading stays synchronous; saves update the cache and are written in the background.
+
+export type StorageBackendKind = 'indexedDB' | 'localStorage';
+
+export type PersistenceEvent = { type: 'saved' } | { type: 'error'; error: unknown };
+
+type RawCollections = Partial<Record<CollectionName, unknown[]>>;
+
+interface CollectionRecord {
+  key: string;
+  fingerprint: unknown; // changes whenever the record has to be written again
+  value: unknown;
+}
+
+let backendKind: StorageBackendKind | null = null;
+let indexedDbStore: IndexedDbStore | null = null;
+const cache: RawCollections = {};
+// Fingerprints and order of the records last written to IndexedDB, per collection
+const written: Partial<Record<CollectionName, { fingerprints: Map<string, unknown>; order: string }>> = {};
+let writeQueue: Promise<unknown> = Promise.resolve();
+let hasWriteError = false;
+const listeners = new Set<(event: PersistenceEvent) => void>();
+
+export const subscribeToStorage = (listener: (event: PersistenceEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = (event: PersistenceEvent) => listeners.forEach(listener => listener(event));
+
+const getRecordKey = (name: CollectionName, item: unknown) => {
+  if (!isObject(item)) return 'item';
+  return name === 'statistics' ? `${item.trainingId}-${item.timestamp}` : String(item.id);
+};
+
+// Folders are split into a record per folder and a record per range, so painting a
+// cell rewrites only the range that changed. Other entities are one record each.
+// Unchanged entities keep their object identity, which serves as their fingerprint.
+const toRecords = (name: CollectionName, items: unknown[]): CollectionRecord[] => {
+  const usedKeys = new Set<string>();
+  const uniqueKey = (base: string) => {
+    let key = base;
+    for (let n = 1; usedKeys.has(key); n++) key = `${base}~${n}`;
+    usedKeys.add(key);
+    return key;
+  };
+  if (name === 'folders') {
+    return (items as Folder[]).flatMap(({ ranges, ...folder }) => [
+      { key: uniqueKey(`folder:${folder.id}`), fingerprint: JSON.stringify(folder), value: folder },
+      ...ranges.map(range => ({ key: uniqueKey(`range:${range.id}`), fingerprint: range, value: range })),
+    ]);
+  }
+  return items.map(item => ({ key: uniqueKey(getRecordKey(name, item)), fingerprint: item, value: item }));
+};
+
+const fromRecords = (name: CollectionName, records: StoredRecord[]): unknown[] => {
+  if (name !== 'folders') return records.map(record => record.value);
+  const folders: Folder[] = [];
+  records.forEach(({ key, value }) => {
+    if (key.startsWith('folder:')) {
+      folders.push({ ...(value as Folder), ranges: [] });
+    } else if (folders.length > 0) {
+      folders[folders.length - 1].ranges.push(value as Range);
+    }
+  });
+  return folders;
+};
+
+const rememberWritten = (name: CollectionName, records: CollectionRecord[]) => {
+  written[name] = {
+    fingerprints: new Map(records.map(record => [record.key, record.fingerprint])),
+    order: records.map(record => record.key).join('\n'),
+  };
+};
+
+// Queues a write; resolves to whether it succeeded. Failures are reported to subscribers.
+const enqueueWrite = (write: () => Promise<void> | void): Promise<boolean> => {
+  const task = writeQueue.then(write).then(
+    () => {
+      notify({ type: 'saved' });
+      return true;
+    },
+    (error) => {
+      console.error("Failed to save data:", error);
+      hasWriteError = true;
+      notify({ type: 'error', error });
+      return false;
+    }
+  );
+  writeQueue = task;
+  return task;
+};
+
+const writeCollection = (name: CollectionName, items: unknown[]): Promise<boolean> => {
+  if (backendKind !== 'indexedDB') {
+    return enqueueWrite(() => localStorage.setItem(STORAGE_KEYS[name], JSON.stringify(items)));
+  }
+
+  const records = toRecords(name, items);
+  const isFirstWrite = !written[name];
+  const previous = written[name] || { fingerprints: new Map<string, unknown>(), order: '' };
+  const keys = new Set(records.map(record => record.key));
+  const put = records
+    .filter(record => previous.fingerprints.get(record.key) !== record.fingerprint)
+    .map(({ key, value }) => ({ key, value }));
+  const remove = [...previous.fingerprints.keys()].filter(key => !keys.has(key));
+  rememberWritten(name, records);
+  const orderChanged = isFirstWrite || written[name].order !== previous.order;
+  if (put.length === 0 && remove.length === 0 && !orderChanged) return Promise.resolve(true);
+
+  return enqueueWrite(async () => {
+    try {
+      await indexedDbStore.apply(name, { put, remove, order: orderChanged ? records.map(record => record.key) : undefined });
+    } catch (error) {
+      // Forget what was written so the next save rewrites the whole collection
+      delete written[name];
+      throw error;
+    }
+  });
+};
+
+// Resolves once all queued writes are done, to whether all of them succeeded.
+export const flushStorage = async (): Promise<boolean> => {
+  await writeQueue;
+  const succeeded = !hasWriteError;
+  hasWriteError = false;
+  return succeeded;
+};
+
+const readLocalStorageCollections = (): RawCollections => {
+  const collections: RawCollections = {};
+  COLLECTIONS.forEach(name => {
+    const key = STORAGE_KEYS[name];
+    const { found, value } = readJson(key);
+    if (!found) return;
+    if (!Array.isArray(value)) {
+      quarantine(key, JSON.stringify(value), 'Ожидался список');
+      localStorage.removeItem(key);
+      return;
+    }
+    collections[name] = value;
+  });
+  return collections;
+};
+
+// --- Migrations ---
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (collections: RawCollections) => CollectionName[]; // returns the collections it changed
+}
+
+const migrateList = (
+  collections: RawCollections,
+  name: CollectionName,
+  migrateItem: (item: Record<string, unknown>) => Record<string, unknown>
+): CollectionName[] => {
+  if (!collections[name]) return [];
+  collections[name] = collections[name].map(item => (isObject(item) ? migrateItem(item) : item));
+  return [name];
+};
+
+// Ordered by version; each one upgrades data of the previous version. Migrations
+// keep the items of a collection in place, so they can be matched with their originals.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Action buttons saved before weighted buttons existed have no type',
+    migrate: (collections) =>
+      migrateList(collections, 'actionButtons', button => (button.type ? button : { ...button, type: 'simple' })),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getStoredSchemaVersion = () => Number(localStorage.getItem(SCHEMA_VERSION_KEY)) || 0;
+
+// Items of the migrated collections as they were stored, by position, until the
+// collection is saved again; an item failing validation is quarantined in this form.
+const originals: RawCollections = {};
+
+// Applies pending migrations to the cache and returns the collections that changed.
+const runMigrations = (): CollectionName[] => {
+  const storedVersion = getStoredSchemaVersion();
+  if (storedVersion > SCHEMA_VERSION) {
+    console.warn(`Stored data has schema version ${storedVersion}, newer than ${SCHEMA_VERSION} supported by this app`);
+    return [];
+  }
+  const changed = new Set<CollectionName>();
+  const stored: RawCollections = storedVersion < SCHEMA_VERSION ? JSON.parse(JSON.stringify(cache)) : {};
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+    try {
+      migration.migrate(cache).forEach(name => changed.add(name));
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    } catch (error) {
+      // Leave the version as is so the migration is retried on the next start
+      console.error(`Migration to schema version ${migration.version} failed:`, error);
+      break;
+    }
+  }
+  changed.forEach(name => {
+    originals[name] = stored[name];
+  });
+  return [...changed];
+};
+
+const selectLocalStorageBackend = () => {
+  backendKind = 'localStorage';
+  Object.assign(cache, readLocalStorageCollections());
+};
+
+// Reads all collections before the app renders. Data found in localStorage is moved
+// to IndexedDB on the first start with it, and stays in localStorage if that fails.
+export const initStorage = async () => {
+  if (backendKind) return;
+
+  const store = await openIndexedDbStore();
+  let stored: Record<string, StoredRecord[]> | null = null;
+  try {
+    stored = store && await store.loadAll();
+  } catch (error) {
+    console.error("Failed to read IndexedDB, using localStorage:", error);
+  }
+  if (backendKind) return; // storage was already used synchronously while waiting
+
+  if (!stored) {
+    selectLocalStorageBackend();
+    runMigrations().forEach(name => writeCollection(name, cache[name]));
+    return;
+  }
+
+  backendKind = 'indexedDB';
+  indexedDbStore = store;
+  const isEmpty = !COLLECTIONS.some(name => stored[name]);
+  if (isEmpty) {
+    Object.assign(cache, readLocalStorageCollections());
+  } else {
+    COLLECTIONS.forEach(name => {
+      if (!stored[name]) return;
+      cache[name] = fromRecords(name, stored[name]);
+      rememberWritten(name, toRecords(name, cache[name]));
+    });
+  }
+
+  const migrated = runMigrations();
+  const toWrite = isEmpty ? COLLECTIONS.filter(name => cache[name]) : migrated;
+  const results = await Promise.all(toWrite.map(name => writeCollection(name, cache[name])));
+  if (isEmpty && toWrite.length > 0) {
+    if (results.every(Boolean)) {
+      COLLECTIONS.forEach(name => localStorage.removeItem(STORAGE_KEYS[name]));
+    } else {
+      backendKind = 'localStorage';
+      indexedDbStore = null;
+    }
+  }
+};
+
+// Starts over from localStorage when initStorage() failed half way, so the app still opens.
+export const fallBackToLocalStorage = () => {
+  indexedDbStore = null;
+  COLLECTIONS.forEach(name => {
+    delete cache[name];
+    delete written[name];
+    delete originals[name];
+  });
+  selectLocalStorageBackend();
+  runMigrations().forEach(name => writeCollection(name, cache[name]));
+};
+
+// Falls back to localStorage when storage is used before initStorage() finished.
+const ensureStorage = () => {
+  if (backendKind) return;
+  selectLocalStorageBackend();
+  runMigrations().forEach(name => writeCollection(name, cache[name]));
+};
+
+export const getStorageBackend = (): StorageBackendKind => {
+  ensureStorage();
+  return backendKind;
+};
+
+// --- Collections ---
+
+export const loadCollection = <K extends CollectionName>(name: K, fallback: PersistedCollections[K]): PersistedCollections[K] => {
+  ensureStorage();
+  const value = cache[name];
+  if (!value) return fallback;
+  const valid = value.filter(VALIDATORS[name]);
+  if (valid.length < value.length) {
+    const invalid = value
+      .map((_, index) => index)
+      .filter(index => !VALIDATORS[name](value[index]))
+      .map(index => (originals[name] ? originals[name][index] : value[index]));
+    quarantine(STORAGE_KEYS[name], JSON.stringify(invalid), 'Повреждённые записи');
+    cache[name] = valid;
+    delete originals[name];
+    writeCollection(name, valid);
+  }
+  return valid as PersistedCollections[K];
+};
+
+export const saveCollection = <K extends CollectionName>(name: K, items: PersistedCollections[K]) => {
+  ensureStorage();
+  cache[name] = items;
+  delete originals[name];
+  writeCollection(name, items);
+};
+
+export const updateCollection = <K extends CollectionName>(
+  name: K,
+  update: (items: PersistedCollections[K]) => PersistedCollections[K]
+) => {
+  saveCollection(name, update(loadCollection(name, [] as PersistedCollections[K])));
+};
+
+// --- Usage ---
+
+export interface StorageUsage {
+  backend: StorageBackendKind;
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+// Browsers allow about 5 MB of localStorage per origin
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+export const STORAGE_WARNING_RATIO = 0.8;
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const backend = getStorageBackend();
+  if (backend === 'indexedDB' && navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (quota > 0) return { backend, usage, quota };
+  }
+  let usage = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    // Strings are stored as UTF-16, two bytes per character
+    usage += (key.length + (localStorage.getItem(key)?.length || 0)) * 2;
+  }
+  return { backend, usage, quota: LOCAL_STORAGE_QUOTA };
+};
+
+// --- Single values ---
+
+export interface StoredUser {
+  username: string;
+}
+
+export type StoredAccounts = Record<string, { password: string }>;
+
+export type CardDeck = 'two-color' | 'four-color';
+export type CardStyle = 'filled' | 'classic' | 'minimal';
+
+export interface StoredCardSettings {
+  deck: CardDeck;
+  style: CardStyle;
+}
+
+// A hand to answer, the range it is asked from and the spot at the table it is asked in
+export interface StoredQuestion {
+  rangeId: string;
+  hand: string;
+  spot?: TableSpot;
+}
+
+// One answer of a session in progress; a border repeat answers with a whole range
+export interface StoredSessionHand {
+  hand: string; // Range name for a border repeat
+  correct: boolean;
+  score: number;
+  userAction?: string;
+  correctAction?: string;
+  rangeId?: string;
+  time?: number;
+}
+
+// Unfinished session of a training, kept to be resumed, see sessionProgress
+export interface StoredSessionProgress {
+  trainingId: string;
+  questions: StoredQuestion[]; // Empty for a border repeat, which goes through the ranges of the training
+  index: number; // Question (or range) to ask next
+  total: number;
+  hands: StoredSessionHand[];
+  elapsed: number; // ms of play, pauses excluded
+  savedAt: number;
+}
+
+interface PersistedValues {
+  users: StoredAccounts;
+  currentUser: StoredUser;
+  cardSettings: StoredCardSettings;
+  sessionProgress: Record<string, StoredSessionProgress>; // By training id
+}
+
+const isSessionProgress = (value: unknown) =>
+  isObject(value) && typeof value.trainingId === 'string'
+  && ['index', 'total', 'elapsed', 'savedAt'].every(key => typeof value[key] === 'number')
+  && Array.isArray(value.questions) && value.questions.every(question =>
+    isObject(question) && typeof question.rangeId === 'string' && typeof question.hand === 'string')
+  && Array.isArray(value.hands) && value.hands.every(hand =>
+    isObject(hand) && typeof hand.hand === 'string' && typeof hand.correct === 'boolean' && typeof hand.score === 'number');
+
+type ValueName = keyof PersistedValues;
+
+const VALUE_VALIDATORS: Record<ValueName, (value: unknown) => boolean> = {
+  users: (value) =>
+    isObject(value) && Object.values(value).every(account => isObject(account) && typeof account.password === 'string'),
+  currentUser: (value) => isObject(value) && typeof value.username === 'string',
+  cardSettings: (value) =>
+    isObject(value) && ['two-color', 'four-color'].includes(value.deck as string)
+    && ['filled', 'classic', 'minimal'].includes(value.style as string),
+  sessionProgress: (value) => isObject(value) && Object.values(value).every(isSessionProgress),
+};
+
+export const loadValue = <K extends ValueName>(name: K, fallback: PersistedValues[K] | null): PersistedValues[K] | null => {
+  const { found, value } = readJson(name);
+  if (!found) return fallback;
+  if (!VALUE_VALIDATORS[name](value)) {
+    quarantine(name, JSON.stringify(value), 'Некорректное значение');
+    localStorage.removeItem(name);
+    return fallback;
+  }
+  return value as PersistedValues[K];
+};
+
+export const saveValue = <K extends ValueName>(name: K, value: PersistedValues[K]) => {
+  localStorage.setItem(name, JSON.stringify(value));
+};
+
+export const removeValue = (name: ValueName) => {
+  localStorage.removeItem(name);
+};
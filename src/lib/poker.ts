@@ -0,0 +1,75 @@
+// Shared poker primitives: rank order and the 13x13 hand grid used across the app.
+
+export const RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'];
+
+export const RANK_INDEX: Record<string, number> = Object.fromEntries(RANKS.map((rank, index) => [rank, index]));
+
+// Name of the hand at a grid cell: pairs on the diagonal, suited above it, offsuit below.
+export const getHandAt = (row: number, col: number): string => {
+  if (row === col) return `${RANKS[row]}${RANKS[row]}`;
+  if (row < col) return `${RANKS[row]}${RANKS[col]}s`;
+  return `${RANKS[col]}${RANKS[row]}o`;
+};
+
+export const HAND_GRID: string[][] = RANKS.map((_, row) => RANKS.map((_, col) => getHandAt(row, col)));
+
+export const ALL_HANDS: string[] = HAND_GRID.flat();
+
+export const isPair = (hand: string) => hand.length === 2 && hand[0] === hand[1];
+
+// Grid coordinates of a hand, the inverse of getHandAt.
+export const getHandPosition = (hand: string): { row: number; col: number } => {
+  const high = RANK_INDEX[hand[0]];
+  const low = RANK_INDEX[hand[1]];
+  if (isPair(hand)) return { row: high, col: high };
+  return hand.endsWith('s') ? { row: high, col: low } : { row: low, col: high };
+};
+
+export const SUITS = ['s', 'h', 'd', 'c'];
+
+export const TOTAL_COMBOS = 1326;
+
+// Concrete two-card combos of a hand class, e.g. "AKs" -> ["AsKs", "AhKh", "AdKd", "AcKc"].
+export const getHandCombos = (hand: string): string[] => {
+  const combos: string[] = [];
+  SUITS.forEach((suit1, i) => {
+    SUITS.forEach((suit2, j) => {
+      if (isPair(hand) ? i < j : hand.endsWith('s') ? i === j : i !== j) {
+        combos.push(`${hand[0]}${suit1}${hand[1]}${suit2}`);
+      }
+    });
+  });
+  return combos;
+};
+
+// Hand class of a concrete combo, e.g. "KhAh" -> "AKs".
+export const getComboHand = (combo: string): string => {
+  let [rank1, suit1, rank2, suit2] = combo.split('');
+  if (RANK_INDEX[rank1] > RANK_INDEX[rank2]) [rank1, suit1, rank2, suit2] = [rank2, suit2, rank1, suit1];
+  if (rank1 === rank2) return `${rank1}${rank2}`;
+  return `${rank1}${rank2}${suit1 === suit2 ? 's' : 'o'}`;
+};
+
+// All 52 cards, e.g. "As", "Kd".
+export const ALL_CARDS: string[] = RANKS.flatMap(rank => SUITS.map(suit => `${rank}${suit}`));
+
+// Hand class of two random cards, so a class comes up as often as in a real deal:
+// an offsuit hand (12 combos) three times as often as a suited one (4), a pair (6) in between.
+export const dealRandomHand = (): string => {
+  const first = Math.floor(Math.random() * ALL_CARDS.length);
+  const second = (first + 1 + Math.floor(Math.random() * (ALL_CARDS.length - 1))) % ALL_CARDS.length;
+  return getComboHand(`${ALL_CARDS[first]}${ALL_CARDS[second]}`);
+};
+
+// Cards written as "Ah Kd 7c", "AhKd7c" or "10h"; returns null if the text holds anything else.
+export const parseCards = (text: string): string[] | null => {
+  const compact = text.replace(/[\s,]+/g, '').replace(/10/g, 'T');
+  if (compact.length % 2 !== 0) return null;
+  const cards: string[] = [];
+  for (let i = 0; i < compact.length; i += 2) {
+    const card = `${compact[i].toUpperCase()}${compact[i + 1].toLowerCase()}`;
+    if (!ALL_CARDS.includes(card)) return null;
+    cards.push(card);
+  }
+  return cards;
+};
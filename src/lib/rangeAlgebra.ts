@@ -0,0 +1,108 @@
+import { Range } from "@/contexts/RangeContext";
+import { ALL_HANDS, getHandCombos } from "@/lib/poker";
+import { Strategy, getComboStrategy, isSameStrategy } from "@/lib/rangeStrategy";
+
+// Set operations on ranges. They work combo by combo: a combo belongs to a range
+// when it is played with any frequency, and keeps the actions it has there. The
+// result is written back as hand cells, mixes and combo overrides.
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+export type RangeSetOperation = 'union' | 'intersection' | 'subtract';
+
+const FOLD: Strategy = { fold: 1 };
+const MIN_FREQUENCY = 0.001;
+
+const isPlayed = (strategy: Strategy) => 1 - (strategy.fold || 0) > MIN_FREQUENCY;
+
+const getPureAction = (strategy: Strategy): string | null => {
+  const actions = Object.entries(strategy).filter(([, fraction]) => fraction > MIN_FREQUENCY);
+  return actions.length === 1 ? actions[0][0] : null;
+};
+
+// Strategy in percent without fold, the form of Range.mixes.
+const toMix = (strategy: Strategy): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(strategy)
+      .filter(([actionId, fraction]) => actionId !== 'fold' && fraction > MIN_FREQUENCY)
+      .map(([actionId, fraction]) => [actionId, Math.round(fraction * 1000) / 10])
+  );
+
+const averageStrategy = (strategies: Strategy[]): Strategy => {
+  const average: Strategy = {};
+  strategies.forEach(strategy => Object.entries(strategy).forEach(([actionId, fraction]) => {
+    average[actionId] = (average[actionId] || 0) + fraction / strategies.length;
+  }));
+  return average;
+};
+
+// Builds a range from the strategy of every combo. Combo overrides hold a single
+// action, so a hand whose combos differ and are mixed is stored as its average mix.
+export const buildRangeFromCombos = (getStrategy: (combo: string) => Strategy): RangeLike => {
+  const hands: Record<string, string> = {};
+  const combos: Record<string, string> = {};
+  const mixes: Record<string, Record<string, number>> = {};
+
+  ALL_HANDS.forEach(hand => {
+    const handCombos = getHandCombos(hand);
+    const strategies = handCombos.map(getStrategy);
+    const pureActions = strategies.map(getPureAction);
+
+    if (strategies.every(strategy => isSameStrategy(strategy, strategies[0]))) {
+      if (!pureActions[0]) {
+        mixes[hand] = toMix(strategies[0]);
+      } else if (pureActions[0] !== 'fold') {
+        hands[hand] = pureActions[0];
+      }
+    } else if (pureActions.every(Boolean)) {
+      // The most common action paints the cell, the other combos override it
+      const counts: Record<string, number> = {};
+      pureActions.forEach(action => { counts[action] = (counts[action] || 0) + 1; });
+      const cellAction = Object.entries(counts).sort(([, a], [, b]) => b - a)[0][0];
+      if (cellAction !== 'fold') hands[hand] = cellAction;
+      handCombos.forEach((combo, index) => {
+        if (pureActions[index] !== cellAction) combos[combo] = pureActions[index];
+      });
+    } else {
+      mixes[hand] = toMix(averageStrategy(strategies));
+    }
+  });
+
+  return {
+    hands,
+    combos: Object.keys(combos).length > 0 ? combos : undefined,
+    mixes: Object.keys(mixes).length > 0 ? mixes : undefined,
+  };
+};
+
+// Union keeps the actions of A and adds the combos only B plays; intersection keeps
+// the combos both play with the actions of A; subtraction removes from A every combo B plays.
+export const combineRanges = (operation: RangeSetOperation, a: RangeLike, b: RangeLike): RangeLike =>
+  buildRangeFromCombos(combo => {
+    const strategyA = getComboStrategy(a, combo);
+    const strategyB = getComboStrategy(b, combo);
+    switch (operation) {
+      case 'union':
+        return isPlayed(strategyA) ? strategyA : strategyB;
+      case 'intersection':
+        return isPlayed(strategyA) && isPlayed(strategyB) ? strategyA : FOLD;
+      case 'subtract':
+        return isPlayed(strategyB) ? FOLD : strategyA;
+    }
+  });
+
+// The folded part of every combo goes to the action, the played part is folded.
+export const invertRange = (range: RangeLike, actionId: string): RangeLike =>
+  buildRangeFromCombos(combo => {
+    const folded = getComboStrategy(range, combo).fold || 0;
+    return { [actionId]: folded, fold: 1 - folded };
+  });
+
+// Keeps the frequencies of the given actions, everything else is folded.
+export const filterRangeActions = (range: RangeLike, actionIds: string[]): RangeLike =>
+  buildRangeFromCombos(combo => {
+    const strategy = getComboStrategy(range, combo);
+    const kept = Object.fromEntries(Object.entries(strategy).filter(([actionId]) => actionIds.includes(actionId)));
+    const keptTotal = Object.values(kept).reduce((sum, fraction) => sum + fraction, 0);
+    return { ...kept, fold: (kept.fold || 0) + 1 - keptTotal };
+  });
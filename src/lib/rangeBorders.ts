@@ -0,0 +1,82 @@
+import { Range } from "@/contexts/RangeContext";
+import { ALL_HANDS, HAND_GRID } from "@/lib/poker";
+import { getHandStrategy, getStrategyDominantAction, isMixedStrategy } from "@/lib/rangeStrategy";
+
+// Borders of a range on the 13x13 grid. A hand is on the border when a cell
+// within the distance (diagonals included) takes another action; a mixed hand
+// is the border itself. Samples favour the hands closest to the border.
+
+export const BORDER_DISTANCES = [1, 2, 3];
+export const BORDER_SAMPLE_SIZES = [10, 20, 30, 50];
+
+export const DEFAULT_BORDER_DISTANCE = 2;
+export const DEFAULT_BORDER_SAMPLE_SIZE = 20;
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+const getGridPosition = (hand: string) => {
+  const row = HAND_GRID.findIndex(cells => cells.includes(hand));
+  return { row, col: HAND_GRID[row].indexOf(hand) };
+};
+
+// Cells to the nearest cell of another action: 0 for a mixed hand, null when there is none within maxDistance.
+const findBorderDistance = (
+  actions: Record<string, string>,
+  mixed: Set<string>,
+  hand: string,
+  maxDistance: number
+): number | null => {
+  if (mixed.has(hand)) return 0;
+  const { row, col } = getGridPosition(hand);
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    for (let dRow = -distance; dRow <= distance; dRow++) {
+      for (let dCol = -distance; dCol <= distance; dCol++) {
+        if (Math.max(Math.abs(dRow), Math.abs(dCol)) !== distance) continue;
+        const neighbour = HAND_GRID[row + dRow]?.[col + dCol];
+        if (neighbour && (actions[neighbour] !== actions[hand] || mixed.has(neighbour))) return distance;
+      }
+    }
+  }
+  return null;
+};
+
+const getGridActions = (range: RangeLike) => {
+  const actions: Record<string, string> = {};
+  const mixed = new Set<string>();
+  ALL_HANDS.forEach(hand => {
+    const strategy = getHandStrategy(range, hand);
+    actions[hand] = getStrategyDominantAction(strategy);
+    if (isMixedStrategy(strategy)) mixed.add(hand);
+  });
+  return { actions, mixed };
+};
+
+export const getBorderDistance = (range: RangeLike, hand: string, maxDistance: number): number | null => {
+  const { actions, mixed } = getGridActions(range);
+  return findBorderDistance(actions, mixed, hand, maxDistance);
+};
+
+// Border hands of the range with their distance to the border.
+export const getBorderHands = (range: RangeLike, maxDistance: number): Record<string, number> => {
+  const { actions, mixed } = getGridActions(range);
+  const hands: Record<string, number> = {};
+  ALL_HANDS.forEach(hand => {
+    const distance = findBorderDistance(actions, mixed, hand, maxDistance);
+    if (distance !== null) hands[hand] = distance;
+  });
+  return hands;
+};
+
+// Weighted sample without replacement, a hand weighing more the closer it is to the border.
+// A range of a single action has no border, it is sampled evenly instead.
+export const sampleBorderHands = (range: RangeLike, maxDistance: number, size: number): string[] => {
+  const borderHands = getBorderHands(range, maxDistance);
+  const candidates = Object.keys(borderHands).length > 0
+    ? Object.entries(borderHands).map(([hand, distance]) => ({ hand, weight: maxDistance + 1 - distance }))
+    : ALL_HANDS.map(hand => ({ hand, weight: 1 }));
+  return candidates
+    .map(({ hand, weight }) => ({ hand, key: Math.pow(Math.random(), 1 / weight) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, size)
+    .map(({ hand }) => hand);
+};
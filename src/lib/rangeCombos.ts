@@ -0,0 +1,57 @@
+import { getHandCombos, getComboHand } from "@/lib/poker";
+import { Range } from "@/contexts/RangeContext";
+
+// Combo-level editing of a range: a combo takes its override from `range.combos`
+// and otherwise inherits from its hand cell (see rangeStrategy for the resolution).
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+export const hasComboOverrides = (range: RangeLike, hand: string): boolean =>
+  !!range.combos && getHandCombos(hand).some(combo => combo in range.combos!);
+
+// Removes the overrides of the given hands, e.g. when the whole cell is repainted.
+export const clearHandCombos = (combos: Record<string, string> | undefined, hands: string[]): Record<string, string> | undefined => {
+  if (!combos) return combos;
+  const next = { ...combos };
+  hands.forEach(hand => getHandCombos(hand).forEach(combo => delete next[combo]));
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+// Assigns an action to a single combo. When every combo of the hand ends up with the
+// same action the overrides are folded back into the hand cell.
+export const setComboAction = <T extends RangeLike>(range: T, combo: string, action: string): T => {
+  const hand = getComboHand(combo);
+  const hands = { ...range.hands };
+  const mixes = range.mixes && { ...range.mixes };
+  const combos = { ...range.combos, [combo]: action };
+
+  // Combos of a mixed hand have no single inherited action
+  const inherited = mixes?.[hand] ? null : hands[hand] ?? 'fold';
+  const handCombos = getHandCombos(hand);
+  const actions = new Set(handCombos.map(c => combos[c] ?? inherited));
+  if (actions.size === 1 && !actions.has(null)) {
+    const [uniformAction] = actions;
+    if (uniformAction === 'fold') {
+      delete hands[hand];
+    } else {
+      hands[hand] = uniformAction;
+    }
+    if (mixes) delete mixes[hand];
+    handCombos.forEach(c => delete combos[c]);
+  } else if (inherited === action) {
+    delete combos[combo];
+  }
+
+  return {
+    ...range,
+    hands,
+    mixes: mixes && Object.keys(mixes).length > 0 ? mixes : undefined,
+    combos: Object.keys(combos).length > 0 ? combos : undefined,
+  };
+};
+
+// Picks a random concrete combo of the hand.
+export const pickRandomCombo = (hand: string): string => {
+  const combos = getHandCombos(hand);
+  return combos[Math.floor(Math.random() * combos.length)];
+};
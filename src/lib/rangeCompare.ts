@@ -0,0 +1,49 @@
+import { ActionButton, Range } from "@/contexts/RangeContext";
+import { ALL_HANDS, getComboHand, getHandCombos } from "@/lib/poker";
+import { getComboStrategy, getRangeActionCombos, isSameStrategy } from "@/lib/rangeStrategy";
+
+// Comparison of two ranges: which cells differ, how the number of combos per
+// action moves, and the part of a range made of its differing cells.
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+// Hands with at least one combo whose frequencies differ between the two ranges.
+export const getChangedHands = (before: RangeLike, after: RangeLike): string[] =>
+  ALL_HANDS.filter(hand => getHandCombos(hand).some(combo =>
+    !isSameStrategy(getComboStrategy(before, combo), getComboStrategy(after, combo))
+  ));
+
+export interface ActionDelta {
+  actionId: string;
+  before: number; // frequency-weighted combos
+  after: number;
+}
+
+// Combos per simple action in both ranges, in button order with fold last.
+export const getActionDeltas = (before: RangeLike, after: RangeLike, buttons: ActionButton[]): ActionDelta[] => {
+  const beforeCombos = getRangeActionCombos(before, buttons);
+  const afterCombos = getRangeActionCombos(after, buttons);
+  const order = [...buttons.map(button => button.id), 'fold'];
+  return [...new Set([...Object.keys(beforeCombos), ...Object.keys(afterCombos)])]
+    .sort((a, b) => {
+      const indexA = order.indexOf(a);
+      const indexB = order.indexOf(b);
+      return (indexA === -1 ? order.length - 1 : indexA) - (indexB === -1 ? order.length - 1 : indexB);
+    })
+    .map(actionId => ({ actionId, before: beforeCombos[actionId] || 0, after: afterCombos[actionId] || 0 }));
+};
+
+// The given hands of the range with everything else folded.
+export const pickHands = (range: RangeLike, hands: string[]): Pick<Range, 'hands' | 'combos' | 'mixes'> => {
+  const picked = new Set(hands);
+  const filter = <T>(record: Record<string, T> | undefined, getHand: (key: string) => string = key => key) => {
+    if (!record) return undefined;
+    const entries = Object.entries(record).filter(([key]) => picked.has(getHand(key)));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+  return {
+    hands: filter(range.hands) || {},
+    combos: filter(range.combos, getComboHand),
+    mixes: filter(range.mixes),
+  };
+};
@@ -0,0 +1,296 @@
+import { RANKS, RANK_INDEX, ALL_HANDS } from "@/lib/poker";
+
+// Text notation for ranges, e.g. "22+, A2s+, KTs+, AJo+, 76s-54s, AKo:0.5".
+
+export interface ParsedRangeText {
+  weights: Record<string, number>; // hand -> frequency in (0, 1]
+  errors: string[]; // tokens that could not be parsed
+}
+
+interface HandClass {
+  high: number; // index in RANKS, lower index = higher rank
+  low: number;
+  suffix: '' | 's' | 'o';
+}
+
+const HAND_PATTERN = /^([2-9TJQKA])([2-9TJQKA])([so]?)$/;
+
+const normalizeToken = (token: string) =>
+  token
+    .replace(/10/g, 'T')
+    .split('')
+    .map(char => (/[akqjt]/i.test(char) ? char.toUpperCase() : char.toLowerCase()))
+    .join('');
+
+const parseHandClass = (text: string): HandClass | null => {
+  const match = HAND_PATTERN.exec(text);
+  if (!match) return null;
+  let high = RANK_INDEX[match[1]];
+  let low = RANK_INDEX[match[2]];
+  const suffix = match[3] as HandClass['suffix'];
+  if (high === low && suffix) return null; // "AAs" is not a hand
+  if (high > low) [high, low] = [low, high];
+  return { high, low, suffix };
+};
+
+const expandHandClass = ({ high, low, suffix }: HandClass): string[] => {
+  if (high === low) return [`${RANKS[high]}${RANKS[high]}`];
+  const base = `${RANKS[high]}${RANKS[low]}`;
+  return suffix ? [`${base}${suffix}`] : [`${base}s`, `${base}o`];
+};
+
+const parsePlus = (text: string): string[] | null => {
+  const start = parseHandClass(text);
+  if (!start) return null;
+  const hands: string[] = [];
+  if (start.high === start.low) {
+    // "77+" = 77 up to AA
+    for (let rank = start.low; rank >= 0; rank--) {
+      hands.push(...expandHandClass({ high: rank, low: rank, suffix: '' }));
+    }
+  } else {
+    // "KTs+" = KTs up to KQs
+    for (let kicker = start.low; kicker > start.high; kicker--) {
+      hands.push(...expandHandClass({ ...start, low: kicker }));
+    }
+  }
+  return hands;
+};
+
+const parseSpan = (fromText: string, toText: string): string[] | null => {
+  const from = parseHandClass(fromText);
+  const to = parseHandClass(toText);
+  if (!from || !to || from.suffix !== to.suffix) return null;
+
+  const fromIsPair = from.high === from.low;
+  if (fromIsPair !== (to.high === to.low)) return null;
+
+  const hands: string[] = [];
+  if (fromIsPair) {
+    // "99-66"
+    const top = Math.min(from.high, to.high);
+    const bottom = Math.max(from.high, to.high);
+    for (let rank = top; rank <= bottom; rank++) {
+      hands.push(...expandHandClass({ high: rank, low: rank, suffix: '' }));
+    }
+    return hands;
+  }
+
+  if (from.high === to.high) {
+    // "A5s-A2s"
+    const top = Math.min(from.low, to.low);
+    const bottom = Math.max(from.low, to.low);
+    for (let kicker = top; kicker <= bottom; kicker++) {
+      hands.push(...expandHandClass({ ...from, low: kicker }));
+    }
+    return hands;
+  }
+
+  // "76s-54s": both ends must keep the same gap between the two cards
+  if (from.low - from.high !== to.low - to.high) return null;
+  const gap = from.low - from.high;
+  const top = Math.min(from.high, to.high);
+  const bottom = Math.max(from.high, to.high);
+  for (let high = top; high <= bottom; high++) {
+    hands.push(...expandHandClass({ high, low: high + gap, suffix: from.suffix }));
+  }
+  return hands;
+};
+
+const parseWildcard = (text: string): string[] | null => {
+  const match = /^([2-9TJQKA])x([so]?)$/.exec(text);
+  if (!match) return null;
+  const high = RANK_INDEX[match[1]];
+  const suffix = match[2] as HandClass['suffix'];
+  const hands: string[] = [];
+  // "Kx" = every non-pair hand with a king as the high card
+  for (let kicker = high + 1; kicker < RANKS.length; kicker++) {
+    hands.push(...expandHandClass({ high, low: kicker, suffix }));
+  }
+  return hands;
+};
+
+export const parseWeight = (text: string | undefined): number | null => {
+  if (text === undefined) return 1;
+  const isPercent = text.endsWith('%');
+  const value = Number(isPercent ? text.slice(0, -1) : text);
+  if (!text || isNaN(value) || value < 0) return null;
+  // Both "0.5" and "50"/"50%" are accepted
+  const weight = isPercent || value > 1 ? value / 100 : value;
+  return weight > 1 ? null : weight;
+};
+
+const parseToken = (token: string): string[] | null => {
+  if (token === 'xx') return [...ALL_HANDS];
+  if (token.endsWith('+')) return parsePlus(token.slice(0, -1));
+  if (token.includes('-')) {
+    const [from, to, ...rest] = token.split('-');
+    return rest.length === 0 ? parseSpan(from, to) : null;
+  }
+  if (token.includes('x')) return parseWildcard(token);
+  const handClass = parseHandClass(token);
+  return handClass ? expandHandClass(handClass) : null;
+};
+
+export const parseRangeText = (text: string): ParsedRangeText => {
+  const weights: Record<string, number> = {};
+  const errors: string[] = [];
+
+  const tokens = text.split(/[,;\s]+/).map(token => token.trim()).filter(Boolean);
+  for (const rawToken of tokens) {
+    const [body, weightText, ...rest] = normalizeToken(rawToken).split(':');
+    const weight = parseWeight(weightText);
+    const hands = rest.length === 0 && weight !== null ? parseToken(body) : null;
+    if (!hands) {
+      errors.push(rawToken);
+      continue;
+    }
+    hands.forEach(hand => {
+      if (weight > 0) {
+        weights[hand] = weight;
+      } else {
+        delete weights[hand];
+      }
+    });
+  }
+
+  return { weights, errors };
+};
+
+// Hands in the order they are listed, e.g. "AA, KK, AKs, QQ+" for a custom ranking.
+export const parseHandOrder = (text: string): { hands: string[]; errors: string[] } => {
+  const hands: string[] = [];
+  const errors: string[] = [];
+  text.split(/[,;\s]+/).map(token => token.trim()).filter(Boolean).forEach(rawToken => {
+    const parsed = parseToken(normalizeToken(rawToken));
+    if (parsed) {
+      hands.push(...parsed);
+    } else {
+      errors.push(rawToken);
+    }
+  });
+  return { hands: [...new Set(hands)], errors };
+};
+
+// Assigns every hand of the parsed text to a single action button.
+export const rangeTextToHands = (text: string, actionId: string): Record<string, string> => {
+  const { weights } = parseRangeText(text);
+  return Object.fromEntries(Object.keys(weights).map(hand => [hand, actionId]));
+};
+
+// Splits sorted indices into runs of consecutive values.
+const toRuns = (indices: number[]): number[][] => {
+  const runs: number[][] = [];
+  [...indices].sort((a, b) => a - b).forEach(index => {
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun[lastRun.length - 1] === index - 1) {
+      lastRun.push(index);
+    } else {
+      runs.push([index]);
+    }
+  });
+  return runs;
+};
+
+const formatPairs = (pairs: number[]): string[] =>
+  toRuns(pairs).map(run => {
+    const top = `${RANKS[run[0]]}${RANKS[run[0]]}`;
+    const bottom = `${RANKS[run[run.length - 1]]}${RANKS[run[run.length - 1]]}`;
+    if (run.length === 1) return top;
+    return run[0] === 0 ? `${bottom}+` : `${top}-${bottom}`;
+  });
+
+// Hands of one suffix written by their high card: runs of kickers become "KTs+" or
+// "K9s-K7s", and a lone kicker is left in `singles` to be joined into a connector span.
+interface KickerTokens {
+  tokens: string[];
+  singles: [number, number][]; // [high, low]
+}
+
+const addKickers = (group: KickerTokens, high: number, kickers: number[], suffix: string) => {
+  toRuns(kickers).forEach(run => {
+    const top = `${RANKS[high]}${RANKS[run[0]]}${suffix}`;
+    const bottom = `${RANKS[high]}${RANKS[run[run.length - 1]]}${suffix}`;
+    if (run.length === 1) {
+      group.singles.push([high, run[0]]);
+    } else {
+      group.tokens.push(run[0] === high + 1 ? `${bottom}+` : `${top}-${bottom}`);
+    }
+  });
+};
+
+// Lone hands keeping the same gap on consecutive ranks, e.g. JTs, T9s and 98s, become "JTs-98s".
+const formatConnectors = ({ tokens, singles }: KickerTokens, suffix: string): string[] => {
+  const byGap = new Map<number, number[]>();
+  singles.forEach(([high, low]) => {
+    byGap.set(low - high, [...(byGap.get(low - high) || []), high]);
+  });
+  const connectors = [...byGap.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([gap, highs]) =>
+      toRuns(highs).map(run => {
+        const top = `${RANKS[run[0]]}${RANKS[run[0] + gap]}${suffix}`;
+        const last = run[run.length - 1];
+        return run.length === 1 ? top : `${top}-${RANKS[last]}${RANKS[last + gap]}${suffix}`;
+      })
+    );
+  return [...tokens, ...connectors];
+};
+
+// Compresses a set of hands into standard shorthand: pair runs, kicker runs and connector spans.
+const formatHandSet = (hands: Set<string>): string[] => {
+  const pairs = RANKS.map((_, index) => index).filter(index => hands.has(`${RANKS[index]}${RANKS[index]}`));
+  const both: KickerTokens = { tokens: [], singles: [] };
+  const suited: KickerTokens = { tokens: [], singles: [] };
+  const offsuit: KickerTokens = { tokens: [], singles: [] };
+
+  for (let high = 0; high < RANKS.length - 1; high++) {
+    const suitedKickers: number[] = [];
+    const offsuitKickers: number[] = [];
+    for (let low = high + 1; low < RANKS.length; low++) {
+      if (hands.has(`${RANKS[high]}${RANKS[low]}s`)) suitedKickers.push(low);
+      if (hands.has(`${RANKS[high]}${RANKS[low]}o`)) offsuitKickers.push(low);
+    }
+    if (suitedKickers.length > 0 && suitedKickers.join() === offsuitKickers.join()) {
+      addKickers(both, high, suitedKickers, '');
+    } else {
+      addKickers(suited, high, suitedKickers, 's');
+      addKickers(offsuit, high, offsuitKickers, 'o');
+    }
+  }
+
+  return [
+    ...formatPairs(pairs),
+    ...formatConnectors(both, ''),
+    ...formatConnectors(suited, 's'),
+    ...formatConnectors(offsuit, 'o'),
+  ];
+};
+
+// Formats hand weights as text; partial weights are written as "AKo:0.5".
+export const formatRangeText = (weights: Record<string, number>): string => {
+  const groups = new Map<number, Set<string>>();
+  Object.entries(weights).forEach(([hand, weight]) => {
+    if (weight <= 0 || !ALL_HANDS.includes(hand)) return;
+    const rounded = Math.round(Math.min(weight, 1) * 1000) / 1000;
+    if (!groups.has(rounded)) groups.set(rounded, new Set());
+    groups.get(rounded)!.add(hand);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => b - a)
+    .flatMap(([weight, hands]) =>
+      formatHandSet(hands).map(token => (weight === 1 ? token : `${token}:${weight}`))
+    )
+    .join(', ');
+};
+
+// Serializes the hands of a range that are assigned to the given action.
+export const serializeRange = (hands: Record<string, string>, actionId: string): string =>
+  formatRangeText(
+    Object.fromEntries(
+      Object.entries(hands)
+        .filter(([, action]) => action === actionId)
+        .map(([hand]) => [hand, 1])
+    )
+  );
@@ -0,0 +1,125 @@
+import { ALL_HANDS, getHandCombos, getComboHand } from "@/lib/poker";
+import { ActionButton, Range } from "@/contexts/RangeContext";
+
+// Frequency view of a range. Every combo resolves to a strategy, a map of
+// action id -> fraction summing to 1, from (in order of precedence) its combo
+// override, the mix of its hand, or the action painted on its hand cell.
+
+export type Strategy = Record<string, number>;
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+// Converts a mix in percent into a strategy, the unassigned remainder going to fold.
+export const getMixStrategy = (mix: Record<string, number>): Strategy => {
+  const strategy: Strategy = {};
+  let assigned = 0;
+  Object.entries(mix).forEach(([actionId, percent]) => {
+    if (percent <= 0) return;
+    strategy[actionId] = (strategy[actionId] || 0) + percent / 100;
+    assigned += percent / 100;
+  });
+  if (assigned < 1) {
+    strategy.fold = (strategy.fold || 0) + 1 - assigned;
+  }
+  return strategy;
+};
+
+export const getComboStrategy = (range: RangeLike, combo: string): Strategy => {
+  const override = range.combos?.[combo];
+  if (override) return { [override]: 1 };
+  const hand = getComboHand(combo);
+  const mix = range.mixes?.[hand];
+  if (mix) return getMixStrategy(mix);
+  return { [range.hands[hand] || 'fold']: 1 };
+};
+
+// Average strategy over all combos of the hand.
+export const getHandStrategy = (range: RangeLike, hand: string): Strategy => {
+  const combos = getHandCombos(hand);
+  const strategy: Strategy = {};
+  combos.forEach(combo => {
+    Object.entries(getComboStrategy(range, combo)).forEach(([actionId, fraction]) => {
+      strategy[actionId] = (strategy[actionId] || 0) + fraction / combos.length;
+    });
+  });
+  return strategy;
+};
+
+const FREQUENCY_TOLERANCE = 0.001;
+
+export const isSameStrategy = (a: Strategy, b: Strategy): boolean =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .every(actionId => Math.abs((a[actionId] || 0) - (b[actionId] || 0)) < FREQUENCY_TOLERANCE);
+
+export const isMixedStrategy = (strategy: Strategy): boolean =>
+  Object.values(strategy).filter(fraction => fraction > 0).length > 1;
+
+export const getStrategyDominantAction = (strategy: Strategy): string =>
+  Object.entries(strategy).sort(([, a], [, b]) => b - a)[0]?.[0] || 'fold';
+
+// The action the hand takes most often.
+export const getDominantAction = (range: RangeLike, hand: string): string =>
+  getStrategyDominantAction(getHandStrategy(range, hand));
+
+// Replaces weighted buttons by their two component actions.
+export const resolveStrategy = (strategy: Strategy, buttons: ActionButton[]): Strategy => {
+  const resolved: Strategy = {};
+  const add = (actionId: string, fraction: number) => {
+    resolved[actionId] = (resolved[actionId] || 0) + fraction;
+  };
+  Object.entries(strategy).forEach(([actionId, fraction]) => {
+    const button = buttons.find(b => b.id === actionId);
+    if (button && button.type === 'weighted') {
+      add(button.action1Id, fraction * button.weight / 100);
+      add(button.action2Id, fraction * (100 - button.weight) / 100);
+    } else {
+      add(actionId, fraction);
+    }
+  });
+  return resolved;
+};
+
+// Frequency-weighted number of combos per simple action (and fold) across the range.
+export const getRangeActionCombos = (range: RangeLike, buttons: ActionButton[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  ALL_HANDS.forEach(hand => {
+    const combos = getHandCombos(hand).length;
+    Object.entries(resolveStrategy(getHandStrategy(range, hand), buttons)).forEach(([actionId, fraction]) => {
+      totals[actionId] = (totals[actionId] || 0) + fraction * combos;
+    });
+  });
+  return totals;
+};
+
+// Frequency-weighted number of combos that are not folded.
+export const countRangeCombos = (range: RangeLike, buttons: ActionButton[]): number => {
+  const totals = getRangeActionCombos(range, buttons);
+  return Object.entries(totals).reduce((sum, [actionId, count]) => sum + (actionId === 'fold' ? 0 : count), 0);
+};
+
+// Sets the frequency vector of a hand. A mix with a single action collapses into
+// a plain cell and an empty mix folds the hand. Combo overrides of the hand are dropped.
+export const setHandMix = <T extends RangeLike>(range: T, hand: string, mix: Record<string, number>): T => {
+  const hands = { ...range.hands };
+  const mixes = { ...range.mixes };
+  const combos = range.combos && Object.fromEntries(
+    Object.entries(range.combos).filter(([combo]) => getComboHand(combo) !== hand)
+  );
+  const entries = Object.entries(mix).filter(([, percent]) => percent > 0);
+  const total = entries.reduce((sum, [, percent]) => sum + percent, 0);
+
+  delete hands[hand];
+  delete mixes[hand];
+  if (entries.length === 1 && total >= 100) {
+    if (entries[0][0] !== 'fold') hands[hand] = entries[0][0];
+  } else if (entries.length > 0) {
+    mixes[hand] = Object.fromEntries(entries);
+  }
+
+  return {
+    ...range,
+    hands,
+    mixes: Object.keys(mixes).length > 0 ? mixes : undefined,
+    combos: combos && Object.keys(combos).length > 0 ? combos : undefined,
+  };
+};
@@ -0,0 +1,51 @@
+import { Range } from "@/contexts/RangeContext";
+import { StoredRangeVersion } from "@/lib/persistence";
+import { getChangedHands } from "@/lib/rangeCompare";
+
+// Version history of ranges. A version is a full copy of the range, saved by hand
+// or automatically before a significant edit. Manual versions are kept until
+// deleted, only the latest automatic versions of every range are kept.
+
+export const AUTO_VERSION_MIN_HANDS = 10; // changed cells that make an edit significant
+export const AUTO_VERSION_DELAY = 2000; // edits are compared once painting has settled
+export const AUTO_VERSIONS_PER_RANGE = 20;
+
+type RangeLike = Pick<Range, 'hands' | 'combos' | 'mixes'>;
+
+export const isEmptyRange = (range: RangeLike) =>
+  Object.keys(range.hands).length === 0 && !range.mixes && !range.combos;
+
+export const createRangeVersion = (range: Range, isAuto: boolean, note?: string): StoredRangeVersion => {
+  const timestamp = Date.now();
+  return {
+    id: `${timestamp}-version-${range.id}`,
+    rangeId: range.id,
+    timestamp,
+    isAuto,
+    ...(note && { note }),
+    range,
+  };
+};
+
+// Versions of the range, newest first.
+export const getRangeVersions = (versions: StoredRangeVersion[], rangeId: string) =>
+  versions.filter(version => version.rangeId === rangeId).sort((a, b) => b.timestamp - a.timestamp);
+
+// Adds a version unless it repeats the latest one, dropping the oldest automatic versions over the limit.
+export const addRangeVersion = (versions: StoredRangeVersion[], version: StoredRangeVersion): StoredRangeVersion[] => {
+  const [latest] = getRangeVersions(versions, version.rangeId);
+  if (latest && latest.range.name === version.range.name && getChangedHands(latest.range, version.range).length === 0) {
+    // A manual save of an auto-saved state turns that version into a manual one
+    if (version.isAuto || !latest.isAuto) return versions;
+    return versions.map(item => item.id === latest.id ? { ...item, isAuto: false, note: version.note } : item);
+  }
+
+  const next = [...versions, version];
+  const staleAutoIds = new Set(
+    getRangeVersions(next, version.rangeId)
+      .filter(item => item.isAuto)
+      .slice(AUTO_VERSIONS_PER_RANGE)
+      .map(item => item.id)
+  );
+  return staleAutoIds.size > 0 ? next.filter(item => !staleAutoIds.has(item.id)) : next;
+};
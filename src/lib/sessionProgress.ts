@@ -0,0 +1,32 @@
+import { StoredSessionProgress, loadValue, saveValue } from "@/lib/persistence";
+
+// Sessions left unfinished, one per training. A session saves its progress after
+// every answer, on pause and when the page is hidden, so it can be resumed from the
+// training list or recovered after a reload; finishing the session removes it.
+
+// Resolves to whether the progress was written; a full storage must not stop the session
+const writeAllSessionProgress = (all: Record<string, StoredSessionProgress>): boolean => {
+  try {
+    saveValue('sessionProgress', all);
+    return true;
+  } catch (error) {
+    console.error("Failed to save session progress:", error);
+    return false;
+  }
+};
+
+export const loadAllSessionProgress = (): Record<string, StoredSessionProgress> =>
+  loadValue('sessionProgress', {}) || {};
+
+export const loadSessionProgress = (trainingId: string): StoredSessionProgress | null =>
+  loadAllSessionProgress()[trainingId] || null;
+
+export const saveSessionProgress = (progress: StoredSessionProgress): boolean =>
+  writeAllSessionProgress({ ...loadAllSessionProgress(), [progress.trainingId]: progress });
+
+export const clearSessionProgress = (trainingId: string) => {
+  const all = loadAllSessionProgress();
+  if (!(trainingId in all)) return;
+  delete all[trainingId];
+  writeAllSessionProgress(all);
+};
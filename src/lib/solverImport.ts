@@ -0,0 +1,307 @@
+import { getComboHand, getHandCombos } from "@/lib/poker";
+import { parseRangeText, parseWeight } from "@/lib/rangeNotation";
+import { setHandMix } from "@/lib/rangeStrategy";
+import { Range } from "@/contexts/RangeContext";
+
+// Parsers for text exported by solvers (PioSOLVER, GTO+, GTO Wizard). Three layouts are understood:
+//   weights - one range as "hand:weight" entries, e.g. "AA:1, AKs:0.5, AsKd:0.25" or "[50]AKs,AQs[/50]"
+//   actions - one range per action, "Raise: AA, KK, AKs:0.5"; a "# Node name" line starts a new node
+//   csv     - a strategy table with a hand column and one column per action, optionally a node column
+
+export type SolverFormat = 'weights' | 'actions' | 'csv';
+
+export interface SolverNode {
+  name: string;
+  actions: string[]; // solver action names in order of appearance
+  weights: Record<string, Record<string, number>>; // action -> hand -> frequency in (0, 1]
+}
+
+export interface SolverImportIssue {
+  line: number;
+  entry: string;
+}
+
+export interface SolverImportResult {
+  format: SolverFormat;
+  nodes: SolverNode[];
+  issues: SolverImportIssue[]; // malformed entries that were skipped
+}
+
+// Solver action -> action button id ('fold' allowed), null leaves the action out.
+export type SolverActionMapping = Record<string, string | null>;
+
+export const WEIGHTS_ACTION = 'Range';
+
+const COMBO_PATTERN = /^([2-9TJQKA])([shdc])([2-9TJQKA])([shdc])$/i;
+const HAND_COLUMNS = ['hand', 'hands', 'combo', 'combos', 'рука'];
+const NODE_COLUMNS = ['node', 'spot', 'line', 'узел'];
+const WEIGHT_COLUMNS = ['weight', 'weights', 'вес'];
+const IGNORED_COLUMNS = /^(ev|eq|eqr|equity|combos|count)\b/i;
+
+// Canonical combo string as produced by getHandCombos, e.g. "KdAs" -> "AsKd".
+const normalizeCombo = (text: string): string | null => {
+  const match = COMBO_PATTERN.exec(text);
+  if (!match) return null;
+  const cards = [match[1].toUpperCase() + match[2].toLowerCase(), match[3].toUpperCase() + match[4].toLowerCase()];
+  if (cards[0] === cards[1]) return null;
+  const hand = getComboHand(cards.join(''));
+  return getHandCombos(hand).find(combo => combo === cards.join('') || combo === cards[1] + cards[0]) || null;
+};
+
+interface WeightCollector {
+  setHand: (hand: string, weight: number) => void;
+  setCombo: (combo: string, weight: number) => void;
+  result: () => Record<string, number>;
+}
+
+// Collects hand and combo frequencies; combo entries are averaged into their hand.
+const createWeightCollector = (): WeightCollector => {
+  const hands: Record<string, number> = {};
+  const combos: Record<string, Record<string, number>> = {};
+  return {
+    setHand: (hand, weight) => {
+      hands[hand] = weight;
+    },
+    setCombo: (combo, weight) => {
+      const hand = getComboHand(combo);
+      combos[hand] = { ...combos[hand], [combo]: weight };
+    },
+    result: () => {
+      const weights = { ...hands };
+      Object.entries(combos).forEach(([hand, handCombos]) => {
+        const total = Object.values(handCombos).reduce((sum, weight) => sum + weight, 0);
+        weights[hand] = total / getHandCombos(hand).length;
+      });
+      return Object.fromEntries(Object.entries(weights).filter(([, weight]) => weight > 0));
+    },
+  };
+};
+
+// "[50]AKs,AQs[/50]" -> "AKs:50%,AQs:50%"
+const expandBracketWeights = (text: string) =>
+  text.replace(/\[(\d+(?:\.\d+)?)\]([^[]*)\[\/\1\]/g, (_, weight, body: string) =>
+    body.split(/[,;\s]+/).filter(Boolean).map(token => `${token}:${weight}%`).join(',')
+  );
+
+const collectRangeText = (text: string, line: number, collector: WeightCollector, issues: SolverImportIssue[]) => {
+  const tokens = expandBracketWeights(text)
+    .replace(/\s*:\s*/g, ':')
+    .split(/[,;\s]+/)
+    .filter(Boolean);
+  tokens.forEach(token => {
+    const [body, weightText, ...rest] = token.split(':');
+    const combo = normalizeCombo(body);
+    if (combo) {
+      const weight = parseWeight(weightText);
+      if (weight === null || rest.length > 0) {
+        issues.push({ line, entry: token });
+      } else {
+        collector.setCombo(combo, weight);
+      }
+      return;
+    }
+    const parsed = parseRangeText(token);
+    if (parsed.errors.length > 0) {
+      issues.push({ line, entry: token });
+      return;
+    }
+    Object.entries(parsed.weights).forEach(([hand, weight]) => collector.setHand(hand, weight));
+  });
+};
+
+const splitLines = (text: string) => text.split(/\r?\n/).map(line => line.trim());
+
+const isHandEntry = (text: string) => {
+  const body = text.trim().split(':')[0];
+  return !!normalizeCombo(body) || parseRangeText(body).errors.length === 0;
+};
+
+// "Raise 2.5bb: AA, KK" -> ["Raise 2.5bb", "AA, KK"]; a line of hand entries has no label.
+const splitActionLabel = (line: string): [string, string] | null => {
+  const match = /^([^:,]+?):(.*)$/.exec(line);
+  if (!match || isHandEntry(match[1])) return null;
+  return [match[1].trim(), match[2].trim()];
+};
+
+const parseWeightsFormat = (text: string, defaultName: string): SolverImportResult => {
+  const collector = createWeightCollector();
+  const issues: SolverImportIssue[] = [];
+  splitLines(text).forEach((line, index) => {
+    if (line) collectRangeText(line, index + 1, collector, issues);
+  });
+  const weights = collector.result();
+  const nodes = Object.keys(weights).length > 0
+    ? [{ name: defaultName, actions: [WEIGHTS_ACTION], weights: { [WEIGHTS_ACTION]: weights } }]
+    : [];
+  return { format: 'weights', nodes, issues };
+};
+
+const parseActionsFormat = (text: string, defaultName: string): SolverImportResult => {
+  const issues: SolverImportIssue[] = [];
+  const nodes: Array<{ name: string; collectors: Map<string, WeightCollector> }> = [];
+  let currentNode: typeof nodes[number] | null = null;
+  let currentAction: WeightCollector | null = null;
+
+  const startNode = (name: string) => {
+    currentNode = nodes.find(node => node.name === name) || null;
+    if (!currentNode) {
+      currentNode = { name, collectors: new Map() };
+      nodes.push(currentNode);
+    }
+    currentAction = null;
+  };
+
+  splitLines(text).forEach((line, index) => {
+    if (!line) return;
+    if (line.startsWith('#')) {
+      startNode(line.replace(/^#+/, '').trim() || `${defaultName} ${nodes.length + 1}`);
+      return;
+    }
+    const labelled = splitActionLabel(line);
+    if (labelled) {
+      if (!currentNode) startNode(defaultName);
+      const [action, rest] = labelled;
+      if (!currentNode.collectors.has(action)) currentNode.collectors.set(action, createWeightCollector());
+      currentAction = currentNode.collectors.get(action);
+      if (rest) collectRangeText(rest, index + 1, currentAction, issues);
+      return;
+    }
+    if (!currentAction) {
+      issues.push({ line: index + 1, entry: line });
+      return;
+    }
+    collectRangeText(line, index + 1, currentAction, issues);
+  });
+
+  const solverNodes = nodes
+    .map(node => ({
+      name: node.name,
+      actions: [...node.collectors.keys()],
+      weights: Object.fromEntries([...node.collectors].map(([action, collector]) => [action, collector.result()])),
+    }))
+    .filter(node => node.actions.length > 0);
+  return { format: 'actions', nodes: solverNodes, issues };
+};
+
+const detectDelimiter = (header: string) =>
+  [',', ';', '\t'].reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+
+const findColumn = (columns: string[], names: string[]) =>
+  columns.findIndex(column => names.includes(column.toLowerCase()));
+
+const parseCsvFormat = (text: string, defaultName: string): SolverImportResult => {
+  const issues: SolverImportIssue[] = [];
+  const lines = splitLines(text);
+  const headerIndex = lines.findIndex(Boolean);
+  if (headerIndex === -1) return { format: 'csv', nodes: [], issues };
+
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  const columns = lines[headerIndex].split(delimiter).map(column => column.trim().replace(/^"|"$/g, ''));
+  const handColumn = findColumn(columns, HAND_COLUMNS);
+  const nodeColumn = findColumn(columns, NODE_COLUMNS);
+  const weightColumn = findColumn(columns, WEIGHT_COLUMNS);
+  if (handColumn === -1) {
+    return { format: 'csv', nodes: [], issues: [{ line: headerIndex + 1, entry: lines[headerIndex] }] };
+  }
+  const actionColumns = columns
+    .map((name, index) => ({ name: name.replace(/\s*\(%\)$/, ''), index }))
+    .filter(({ name, index }) =>
+      name && index !== handColumn && index !== nodeColumn && index !== weightColumn && !IGNORED_COLUMNS.test(name)
+    );
+
+  const nodes = new Map<string, Map<string, WeightCollector>>();
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    if (!line) return;
+    const lineNumber = headerIndex + offset + 2;
+    const cells = line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const entry = cells[handColumn] || '';
+    const combo = normalizeCombo(entry);
+    const parsed = combo ? null : parseRangeText(entry);
+    const hands = parsed ? Object.keys(parsed.weights) : [];
+    const values = actionColumns.map(({ index }) => parseFloat((cells[index] || '0').replace('%', '').replace(',', '.')));
+    let rowWeight = weightColumn === -1 ? 1 : parseFloat((cells[weightColumn] || '').replace(',', '.'));
+    if (rowWeight > 1) rowWeight /= 100;
+
+    if (cells.length < columns.length || (!combo && (parsed.errors.length > 0 || hands.length === 0))
+      || values.some(value => isNaN(value) || value < 0) || isNaN(rowWeight)) {
+      issues.push({ line: lineNumber, entry: line });
+      return;
+    }
+    // Frequencies are either fractions or percent; a row adding up to more than 1 is in percent
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const scale = total > 1.001 ? 1 / 100 : 1;
+
+    const nodeName = (nodeColumn !== -1 && cells[nodeColumn]) || defaultName;
+    if (!nodes.has(nodeName)) nodes.set(nodeName, new Map());
+    const collectors = nodes.get(nodeName);
+    actionColumns.forEach(({ name }, i) => {
+      if (!collectors.has(name)) collectors.set(name, createWeightCollector());
+      const weight = Math.min(1, values[i] * scale) * rowWeight;
+      if (combo) {
+        collectors.get(name).setCombo(combo, weight);
+      } else {
+        hands.forEach(hand => collectors.get(name).setHand(hand, weight));
+      }
+    });
+  });
+
+  const solverNodes = [...nodes].map(([name, collectors]) => {
+    const weights = Object.fromEntries([...collectors].map(([action, collector]) => [action, collector.result()]));
+    return { name, actions: [...collectors.keys()].filter(action => Object.keys(weights[action]).length > 0), weights };
+  }).filter(node => node.actions.length > 0);
+  return { format: 'csv', nodes: solverNodes, issues };
+};
+
+export const detectSolverFormat = (text: string): SolverFormat => {
+  const lines = splitLines(text).filter(Boolean);
+  if (lines.length === 0) return 'weights';
+  const header = lines[0].split(detectDelimiter(lines[0])).map(column => column.trim().replace(/^"|"$/g, ''));
+  if (findColumn(header, HAND_COLUMNS) !== -1) return 'csv';
+  if (lines.some(line => line.startsWith('#') || splitActionLabel(line))) return 'actions';
+  return 'weights';
+};
+
+export const parseSolverExport = (text: string, format: SolverFormat | 'auto', defaultName: string): SolverImportResult => {
+  const resolved = format === 'auto' ? detectSolverFormat(text) : format;
+  if (resolved === 'csv') return parseCsvFormat(text, defaultName);
+  if (resolved === 'actions') return parseActionsFormat(text, defaultName);
+  return parseWeightsFormat(text, defaultName);
+};
+
+// Frequency-weighted number of combos each solver action takes in the node.
+export const getNodeActionCombos = (node: SolverNode): Record<string, number> =>
+  Object.fromEntries(node.actions.map(action => [
+    action,
+    Object.entries(node.weights[action]).reduce((sum, [hand, weight]) => sum + weight * getHandCombos(hand).length, 0),
+  ]));
+
+// Builds the hands and mixes of a range from a node. Actions mapped to the same
+// button are added up; frequencies over 100% are scaled down and left-over
+// frequency, including that of actions left out of the mapping, is fold.
+export const buildNodeRange = (node: SolverNode, mapping: SolverActionMapping): Pick<Range, 'hands' | 'mixes'> => {
+  const percents: Record<string, Record<string, number>> = {};
+  node.actions.forEach(action => {
+    const actionId = mapping[action];
+    if (!actionId || actionId === 'fold') return;
+    Object.entries(node.weights[action]).forEach(([hand, weight]) => {
+      percents[hand] = { ...percents[hand], [actionId]: (percents[hand]?.[actionId] || 0) + weight * 100 };
+    });
+  });
+
+  let range: Pick<Range, 'hands' | 'mixes'> = { hands: {} };
+  Object.entries(percents).forEach(([hand, mix]) => {
+    const total = Object.values(mix).reduce((sum, percent) => sum + percent, 0);
+    const scale = total > 100 ? 100 / total : 1;
+    const rounded = Object.fromEntries(Object.entries(mix).map(([actionId, percent]) => [actionId, Math.round(percent * scale)]));
+    // Rounding may overshoot 100% by a point or two, take it from the largest action
+    const overshoot = Object.values(rounded).reduce((sum, percent) => sum + percent, 0) - 100;
+    if (overshoot > 0) {
+      const [largest] = Object.entries(rounded).sort(([, a], [, b]) => b - a)[0];
+      rounded[largest] -= overshoot;
+    }
+    range = setHandMix(range, hand, rounded);
+  });
+  return range;
+};
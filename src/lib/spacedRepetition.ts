@@ -0,0 +1,110 @@
+import { Range } from "@/contexts/RangeContext";
+import { StoredHandMemory } from "@/lib/persistence";
+import { ALL_HANDS } from "@/lib/poker";
+import { getBorderHands } from "@/lib/rangeBorders";
+
+// Spaced repetition of the hands of a range, scheduled the SM-2 way: every answer
+// updates the ease and the interval of the hand, a wrong answer makes it due again
+// at once. A session takes the due hands, the ones answered wrong first, and tops
+// them up with a few new hands, the borderline ones first.
+
+export interface SpacedQuestion {
+  rangeId: string;
+  hand: string;
+}
+
+export const DAY = 24 * 60 * 60 * 1000;
+
+export const SPACED_SESSION_SIZE = 30;
+export const NEW_HANDS_PER_SESSION = 10;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// SM-2 answer quality: 5 is a perfect answer, below 3 is a failure
+export const CORRECT_QUALITY = 4;
+export const PARTIAL_QUALITY = 3;
+export const WRONG_QUALITY = 1;
+
+export const getMemoryId = (rangeId: string, hand: string) => `${rangeId}:${hand}`;
+
+export const reviewHand = (
+  memory: StoredHandMemory | undefined,
+  rangeId: string,
+  hand: string,
+  quality: number,
+  now: number
+): StoredHandMemory => {
+  const previousEase = memory?.ease ?? DEFAULT_EASE;
+  const ease = Math.max(MIN_EASE, previousEase + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const streak = quality >= 3 ? (memory?.streak ?? 0) + 1 : 0;
+  const interval = streak === 0 ? 0 : streak === 1 ? 1 : streak === 2 ? 6 : Math.round((memory?.interval || 1) * ease);
+  return {
+    id: getMemoryId(rangeId, hand),
+    rangeId,
+    hand,
+    ease,
+    interval,
+    streak,
+    lastSeen: now,
+    due: now + interval * DAY,
+  };
+};
+
+const shuffle = <T>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
+
+// Only the record under the key of the hand counts, it is the one answers update
+const getRangeMemory = (memories: StoredHandMemory[], rangeId: string) =>
+  new Map(
+    memories
+      .filter(memory => memory.rangeId === rangeId && memory.id === getMemoryId(rangeId, memory.hand))
+      .map(memory => [memory.hand, memory])
+  );
+
+// New hands of the range for one session, the borderline ones (mixed or next to another action) first.
+const getNewHands = (range: Range, memory: Map<string, StoredHandMemory>) => {
+  const unseen = shuffle(ALL_HANDS.filter(hand => !memory.has(hand)));
+  const borderHands = getBorderHands(range, 1);
+  const borderline = unseen.filter(hand => hand in borderHands);
+  return [...borderline, ...unseen.filter(hand => !borderline.includes(hand))].slice(0, NEW_HANDS_PER_SESSION);
+};
+
+export const buildSpacedSession = (ranges: Range[], memories: StoredHandMemory[], now: number): SpacedQuestion[] => {
+  const due: StoredHandMemory[] = [];
+  const fresh: SpacedQuestion[] = [];
+  ranges.forEach(range => {
+    const memory = getRangeMemory(memories, range.id);
+    memory.forEach(item => {
+      if (item.due <= now) due.push(item);
+    });
+    getNewHands(range, memory).forEach(hand => fresh.push({ rangeId: range.id, hand }));
+  });
+
+  // Failed hands first, then the hardest and the most overdue
+  due.sort((a, b) => a.streak - b.streak || a.ease - b.ease || a.due - b.due);
+  const reviews = due.map(({ rangeId, hand }) => ({ rangeId, hand }));
+  return shuffle([...reviews, ...shuffle(fresh)].slice(0, SPACED_SESSION_SIZE));
+};
+
+export interface DueCounts {
+  due: number; // Hands seen before that are due by the end of the day
+  fresh: number; // Hands not seen yet, a session adds a few of them
+}
+
+const getEndOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const countDueToday = (ranges: Range[], memories: StoredHandMemory[], now: number): DueCounts => {
+  const endOfDay = getEndOfDay(now);
+  return ranges.reduce((counts, range) => {
+    const memory = getRangeMemory(memories, range.id);
+    memory.forEach(item => {
+      if (item.due <= endOfDay) counts.due++;
+    });
+    counts.fresh += ALL_HANDS.length - memory.size;
+    return counts;
+  }, { due: 0, fresh: 0 });
+};
@@ -0,0 +1,181 @@
+import { Folder, Range } from "@/contexts/RangeContext";
+import { StoredChart } from "@/components/Chart";
+
+// Preflop spots at a 6-max table. A spot is the hero's seat, the effective stack
+// and the actions before the hero's decision; everyone else who is to act before
+// the hero has folded. The range of a spot is found by the positions, stack and
+// action words in the names of the folder and the range.
+
+export const POSITIONS = ['UTG', 'HJ', 'CO', 'BTN', 'SB', 'BB'] as const;
+
+export type Position = typeof POSITIONS[number];
+
+export type SpotActionType = 'limp' | 'raise' | 'call' | 'allin';
+
+export const SPOT_ACTION_TYPES: SpotActionType[] = ['limp', 'raise', 'call', 'allin'];
+
+export const SPOT_ACTION_LABELS: Record<SpotActionType, string> = {
+  limp: 'Лимп',
+  raise: 'Рейз',
+  call: 'Колл',
+  allin: 'Олл-ин',
+};
+
+export interface SpotAction {
+  position: Position;
+  type: SpotActionType;
+  size?: number; // Raise to, in big blinds
+}
+
+export interface TableSpot {
+  hero: Position;
+  stack: number; // Effective stack in big blinds
+  actions: SpotAction[];
+  rangeId?: string;
+}
+
+export const DEFAULT_STACK = 100;
+
+// Hands asked per spot in a session
+export const HANDS_PER_SPOT = 15;
+
+// Which hands of a spot are asked: the ones near the range borders, or any hand
+export type SpotHands = 'border' | 'all';
+
+export const SPOT_HANDS_LABELS: Record<SpotHands, string> = {
+  border: 'Руки у границ ренжа',
+  all: 'Любые руки',
+};
+
+export const DEFAULT_SPOT_HANDS: SpotHands = 'border';
+
+// Where random spots are drawn from: every range of some folders, or every range a chart links to
+export type SpotSource = 'folders' | 'chart';
+
+// Ids of the ranges random spots are drawn from. They are resolved when a session
+// starts, so ranges added to the folders or linked into the chart later are drawn too.
+export const getSpotSourceRanges = (
+  folders: Folder[],
+  charts: StoredChart[],
+  source: SpotSource,
+  sourceIds: string[] // Folder ids, or the chart id
+): string[] => {
+  if (source === 'folders') {
+    return folders.filter(folder => sourceIds.includes(folder.id)).flatMap(folder => folder.ranges.map(range => range.id));
+  }
+  const rangeIds = new Set(folders.flatMap(folder => folder.ranges.map(range => range.id)));
+  const chart = charts.find(item => sourceIds.includes(item.id));
+  return [...new Set((chart?.buttons || []).map(button => button.linkedItem).filter(id => rangeIds.has(id)))];
+};
+
+const BLINDS: Partial<Record<Position, number>> = { SB: 0.5, BB: 1 };
+
+// Names the positions go by in range and folder names
+const POSITION_ALIASES: Record<Position, string[]> = {
+  UTG: ['UTG', 'EP'],
+  HJ: ['HJ', 'MP'],
+  CO: ['CO'],
+  BTN: ['BTN', 'BU'],
+  SB: ['SB'],
+  BB: ['BB'],
+};
+
+const RAISE_NAMES = ['', 'open', '3bet', '4bet', '5bet'];
+
+export const getSpotVillains = (spot: TableSpot): Position[] =>
+  [...new Set(spot.actions.map(action => action.position))].filter(position => position !== spot.hero);
+
+const formatBB = (amount: number) => `${Number(amount.toFixed(1))}bb`;
+
+// Chips in front of every seat once the actions are made, blinds included.
+export const getSpotBets = (spot: TableSpot): Partial<Record<Position, number>> => {
+  const bets: Partial<Record<Position, number>> = { ...BLINDS };
+  let toCall = 1;
+  spot.actions.forEach(action => {
+    if (action.type === 'limp' || action.type === 'call') {
+      bets[action.position] = Math.min(toCall, spot.stack);
+    } else {
+      const amount = action.type === 'allin' ? spot.stack : Math.min(action.size || toCall * 3, spot.stack);
+      bets[action.position] = amount;
+      toCall = Math.max(toCall, amount);
+    }
+  });
+  return bets;
+};
+
+// Seats that have folded by the hero's decision: everyone who had a turn and did not act.
+// Once the hero has acted every other seat had its turn.
+export const getFoldedPositions = (spot: TableSpot): Position[] => {
+  const acted = new Set(spot.actions.map(action => action.position));
+  const heroIndex = POSITIONS.indexOf(spot.hero);
+  const lastIndex = acted.has(spot.hero)
+    ? POSITIONS.length
+    : Math.max(heroIndex, ...spot.actions.map(action => POSITIONS.indexOf(action.position)));
+  return POSITIONS.filter((position, index) => position !== spot.hero && !acted.has(position) && index < lastIndex);
+};
+
+export const describeSpot = (spot: TableSpot): string => {
+  let raises = 0;
+  const parts = spot.actions.map(action => {
+    if (action.type === 'limp') return `${action.position} лимпит`;
+    if (action.type === 'call') return `${action.position} коллирует`;
+    if (action.type === 'allin') return `${action.position} олл-ин`;
+    raises++;
+    const amount = formatBB(action.size || 0);
+    return raises === 1 ? `${action.position} открывает ${amount}` : `${action.position} делает ${raises + 1}-бет до ${amount}`;
+  });
+  if (parts.length === 0) parts.push('Все сфолдили');
+  return `${parts.join(', ')}, герой на ${spot.hero}, стек ${formatBB(spot.stack)}`;
+};
+
+const findToken = (text: string, token: string) => {
+  const match = new RegExp(`(^|[^A-Z0-9])${token}([^A-Z0-9]|$)`).exec(text);
+  return match ? match.index : -1;
+};
+
+const findPosition = (text: string, position: Position) => {
+  const indexes = POSITION_ALIASES[position].map(alias => findToken(text, alias)).filter(index => index >= 0);
+  return indexes.length > 0 ? Math.min(...indexes) : -1;
+};
+
+// How well a folder and range name describe the spot, null when the hero's position is not in it.
+const scoreRangeName = (spot: TableSpot, name: string): number | null => {
+  const text = name.toUpperCase();
+  const heroIndex = findPosition(text, spot.hero);
+  if (heroIndex < 0) return null;
+
+  const villains = getSpotVillains(spot);
+  let score = 3;
+  POSITIONS.filter(position => position !== spot.hero).forEach(position => {
+    const index = findPosition(text, position);
+    if (index < 0) return;
+    if (villains.includes(position)) {
+      score += 2;
+      if (heroIndex < index) score += 1; // "BTN vs UTG" names the hero first
+    } else {
+      score -= 2;
+    }
+  });
+  if (villains.length === 0 && ['RFI', 'OPEN', 'ОПЕН'].some(word => findToken(text, word) >= 0)) score += 1;
+
+  const raises = spot.actions.filter(action => action.type === 'raise').length;
+  if (raises > 1 && raises < RAISE_NAMES.length && findToken(text, RAISE_NAMES[raises].toUpperCase()) >= 0) score += 1;
+  if (findToken(text, `${spot.stack}BB`) >= 0) score += 1;
+  return score;
+};
+
+// The range whose folder and name match the spot best.
+export const findSpotRange = (spot: TableSpot, folders: Folder[]): Range | null => {
+  let best: Range | null = null;
+  let bestScore = -Infinity;
+  for (const folder of folders) {
+    for (const range of folder.ranges) {
+      const score = scoreRangeName(spot, `${folder.name} ${range.name}`);
+      if (score !== null && score > bestScore) {
+        best = range;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,77 @@
+import { StoredAnswer, StoredSessionStat, loadCollection } from "@/lib/persistence";
+
+// Answers kept with the sessions of a training and what they add up to.
+
+export const TIME_LIMITS = [3, 5, 8, 10, 15]; // Seconds per question
+
+export interface DecisionTime {
+  key: string; // Hand or range id
+  average: number; // ms
+  count: number;
+}
+
+export interface DecisionTimes {
+  average: number; // ms, 0 when no answer was timed
+  byRange: DecisionTime[];
+  byHand: DecisionTime[]; // Slowest first
+}
+
+export const getSessionAnswers = (stats: Pick<StoredSessionStat, 'answers'>[]): StoredAnswer[] =>
+  stats.flatMap(stat => (Array.isArray(stat.answers) ? stat.answers : []));
+
+const averageBy = (answers: StoredAnswer[], getKey: (answer: StoredAnswer) => string): DecisionTime[] => {
+  const groups = new Map<string, { total: number; count: number }>();
+  answers.forEach(answer => {
+    const key = getKey(answer);
+    const group = groups.get(key) || { total: 0, count: 0 };
+    group.total += answer.time;
+    group.count++;
+    groups.set(key, group);
+  });
+  return [...groups.entries()]
+    .map(([key, { total, count }]) => ({ key, average: total / count, count }))
+    .sort((a, b) => b.average - a.average);
+};
+
+export const getDecisionTimes = (answers: StoredAnswer[]): DecisionTimes => ({
+  average: answers.length > 0 ? answers.reduce((sum, answer) => sum + answer.time, 0) / answers.length : 0,
+  byRange: averageBy(answers, answer => answer.rangeId),
+  byHand: averageBy(answers, answer => answer.hand),
+});
+
+export interface HandLeak {
+  hand: string;
+  total: number;
+  wrong: number; // Answers that were not fully correct
+  errorRate: number; // 0..1
+  wrongActions: Record<string, number>; // Chosen action -> times, for the wrong answers
+}
+
+// Answers of every session of every training.
+export const loadAllAnswers = (): StoredAnswer[] => getSessionAnswers(loadCollection('statistics', []));
+
+export const getHandLeaks = (answers: StoredAnswer[]): Record<string, HandLeak> => {
+  const leaks: Record<string, HandLeak> = {};
+  answers.forEach(answer => {
+    const leak = leaks[answer.hand] || (leaks[answer.hand] = { hand: answer.hand, total: 0, wrong: 0, errorRate: 0, wrongActions: {} });
+    leak.total++;
+    if (!answer.correct) {
+      leak.wrong++;
+      if (answer.action) leak.wrongActions[answer.action] = (leak.wrongActions[answer.action] || 0) + 1;
+    }
+    leak.errorRate = leak.wrong / leak.total;
+  });
+  return leaks;
+};
+
+// Hands losing the most answers, the higher error rate first among equals.
+export const getTopLeaks = (leaks: Record<string, HandLeak>, count: number): HandLeak[] =>
+  Object.values(leaks)
+    .filter(leak => leak.wrong > 0)
+    .sort((a, b) => b.wrong - a.wrong || b.errorRate - a.errorRate)
+    .slice(0, count);
+
+export const getMostCommonWrongAction = (leak: HandLeak): string | null =>
+  Object.entries(leak.wrongActions).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} с`;
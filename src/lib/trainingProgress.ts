@@ -0,0 +1,136 @@
+import { StoredSessionStat, StoredTraining } from "@/lib/persistence";
+
+// Practice by day for the progress dashboard. A day holds the questions answered
+// and their score; filtering by range counts the stored answers of that range
+// instead of whole sessions. Days are local calendar days keyed as YYYY-MM-DD.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ROLLING_WINDOW = 7; // Days of practice in the rolling accuracy
+
+export const PERIODS = [
+  { value: '7', label: '7 дней' },
+  { value: '30', label: '30 дней' },
+  { value: '90', label: '90 дней' },
+  { value: 'all', label: 'Всё время' },
+];
+
+export interface ProgressFilter {
+  period: string; // Days back from today or 'all'
+  type: string; // Training type or 'all'
+  trainingId: string; // Training id or 'all'
+  rangeId: string; // Range id or 'all'
+}
+
+export const DEFAULT_PROGRESS_FILTER: ProgressFilter = { period: '30', type: 'all', trainingId: 'all', rangeId: 'all' };
+
+export interface DayProgress {
+  date: string;
+  questions: number;
+  score: number;
+  accuracy: number; // 0..100
+  rollingAccuracy: number; // 0..100 over the last ROLLING_WINDOW days of practice
+}
+
+export interface PracticeStreaks {
+  current: number; // Days in a row up to today, or up to yesterday when today is not practiced yet
+  longest: number;
+}
+
+export const getDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const getStartOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Sessions of the filter; the period counts the current day as its last one.
+export const filterSessions = (
+  stats: StoredSessionStat[],
+  trainings: StoredTraining[],
+  filter: ProgressFilter,
+  now: number
+): StoredSessionStat[] => {
+  const from = filter.period === 'all' ? -Infinity : getStartOfDay(now) - (Number(filter.period) - 1) * DAY_MS;
+  const types = new Map(trainings.map(training => [training.id, training.type]));
+  return stats.filter(stat =>
+    stat.timestamp >= from
+    && (filter.type === 'all' || types.get(stat.trainingId) === filter.type)
+    && (filter.trainingId === 'all' || stat.trainingId === filter.trainingId)
+  );
+};
+
+export const getDailyProgress = (sessions: StoredSessionStat[], rangeId: string): DayProgress[] => {
+  const days = new Map<string, { questions: number; score: number }>();
+  sessions.forEach(stat => {
+    let questions = stat.totalQuestions;
+    let score = stat.score ?? stat.correctAnswers;
+    if (rangeId !== 'all') {
+      const answers = (stat.answers || []).filter(answer => answer.rangeId === rangeId);
+      questions = answers.length;
+      score = answers.reduce((sum, answer) => sum + (answer.score ?? Number(answer.correct)), 0);
+    }
+    if (questions === 0) return;
+    const key = getDayKey(stat.timestamp);
+    const day = days.get(key) || { questions: 0, score: 0 };
+    day.questions += questions;
+    day.score += score;
+    days.set(key, day);
+  });
+
+  const sorted = [...days.entries()].sort(([a], [b]) => a.localeCompare(b));
+  return sorted.map(([date, day], index) => {
+    const window = sorted.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1).map(([, item]) => item);
+    const windowQuestions = window.reduce((sum, item) => sum + item.questions, 0);
+    const windowScore = window.reduce((sum, item) => sum + item.score, 0);
+    return {
+      date,
+      questions: day.questions,
+      score: day.score,
+      accuracy: (day.score / day.questions) * 100,
+      rollingAccuracy: (windowScore / windowQuestions) * 100,
+    };
+  });
+};
+
+// Runs of consecutive practice days.
+export const getPracticeStreaks = (days: string[], now: number): PracticeStreaks => {
+  const practiced = new Set(days);
+  const sorted = [...practiced].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  sorted.forEach(day => {
+    const time = new Date(`${day}T00:00:00`).getTime();
+    // Rounded, so a change of daylight saving time does not break a run
+    run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  });
+
+  let current = 0;
+  let cursor = getStartOfDay(now);
+  if (!practiced.has(getDayKey(cursor))) cursor -= DAY_MS;
+  while (practiced.has(getDayKey(cursor))) {
+    current++;
+    cursor = getStartOfDay(cursor - DAY_MS / 2);
+  }
+  return { current, longest };
+};
+
+// Weeks of days ending with the current week, Monday first; days after today are null.
+export const getCalendarWeeks = (weeks: number, now: number): (string | null)[][] => {
+  const today = getStartOfDay(now);
+  const weekday = (new Date(today).getDay() + 6) % 7;
+  const start = getStartOfDay(today - (weekday + (weeks - 1) * 7) * DAY_MS + DAY_MS / 2);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const time = getStartOfDay(start + (week * 7 + day) * DAY_MS + DAY_MS / 2);
+      return time > today ? null : getDayKey(time);
+    })
+  );
+};
@@ -0,0 +1,329 @@
+import { Folder, Range } from "@/contexts/RangeContext";
+import {
+  PersistedCollections,
+  CollectionName,
+  COLLECTIONS,
+  VALIDATORS,
+  isObject,
+  loadCollection,
+  saveCollection,
+} from "@/lib/persistence";
+import { TableSpot } from "@/lib/tableSpots";
+import { getMemoryId } from "@/lib/spacedRepetition";
+
+// Backup of the whole workspace as one JSON file. The file carries a format
+// marker and a schema version so that older backups can still be read.
+
+export const BACKUP_FORMAT = 'poker-ranges-workspace';
+export const BACKUP_VERSION = 1;
+
+export type WorkspaceData = PersistedCollections;
+
+export type WorkspaceSection = CollectionName;
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: WorkspaceData;
+}
+
+export const WORKSPACE_SECTIONS = COLLECTIONS;
+
+export const readWorkspace = (): WorkspaceData =>
+  Object.fromEntries(WORKSPACE_SECTIONS.map(section => [section, loadCollection(section, [])])) as unknown as WorkspaceData;
+
+export const writeWorkspace = (data: WorkspaceData) => {
+  WORKSPACE_SECTIONS.forEach(section => saveCollection(section, data[section]));
+};
+
+export const createBackup = (data: WorkspaceData): WorkspaceBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+});
+
+export const SECTION_LABELS: Record<WorkspaceSection, string> = {
+  folders: 'Папки',
+  actionButtons: 'Действия',
+  charts: 'Чарты',
+  trainings: 'Тренировки',
+  statistics: 'Статистика',
+  rangeVersions: 'Версии ренжей',
+  handMemory: 'Интервальное повторение',
+};
+
+export interface ParsedBackup {
+  backup: WorkspaceBackup | null;
+  errors: string[]; // the file cannot be imported
+  warnings: string[]; // invalid entries that were dropped
+}
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['Файл не является корректным JSON.'], warnings: [] };
+  }
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT || !isObject(raw.data)) {
+    return { backup: null, errors: ['Файл не является резервной копией рабочего пространства.'], warnings: [] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`Неподдерживаемая версия резервной копии: ${raw.version}.`], warnings: [] };
+  }
+
+  const sections = raw.data;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const data = Object.fromEntries(WORKSPACE_SECTIONS.map(section => {
+    const items = sections[section] ?? [];
+    if (!Array.isArray(items)) {
+      errors.push(`Раздел "${SECTION_LABELS[section]}" повреждён.`);
+      return [section, []];
+    }
+    const valid = items.filter(VALIDATORS[section]);
+    if (valid.length < items.length) {
+      warnings.push(`${SECTION_LABELS[section]}: пропущено повреждённых записей — ${items.length - valid.length}`);
+    }
+    return [section, valid];
+  })) as unknown as WorkspaceData;
+
+  if (errors.length > 0) return { backup: null, errors, warnings };
+  return {
+    backup: { format: BACKUP_FORMAT, version: raw.version, exportedAt: String(raw.exportedAt ?? ''), data },
+    errors,
+    warnings,
+  };
+};
+
+// --- Import planning ---
+
+export type ImportMode = 'merge' | 'replace';
+
+// What happens to an incoming entity whose id is taken by a different entity:
+// overwrite the existing one, or keep both and give the incoming one a new id.
+export type ConflictStrategy = 'overwrite' | 'keep-both';
+
+export interface SectionSummary {
+  added: number;
+  overwritten: number;
+  remapped: number; // added under a new id
+  unchanged: number;
+  removed: number;
+}
+
+export interface ImportPlan {
+  data: WorkspaceData;
+  summary: Record<WorkspaceSection, SectionSummary>;
+}
+
+const emptySummary = (): SectionSummary => ({ added: 0, overwritten: 0, remapped: 0, unchanged: 0, removed: 0 });
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const createIdFactory = () => {
+  const stamp = Date.now();
+  let counter = 0;
+  return () => `${stamp}-import-${counter++}`;
+};
+
+const remapValues = (record: Record<string, string> | undefined, idMap: Record<string, string>) =>
+  record && Object.fromEntries(Object.entries(record).map(([key, id]) => [key, idMap[id] ?? id]));
+
+const remapRangeActions = (range: Range, actionIdMap: Record<string, string>): Range => ({
+  ...range,
+  hands: remapValues(range.hands, actionIdMap),
+  ...(range.combos && { combos: remapValues(range.combos, actionIdMap) }),
+  ...(range.mixes && {
+    mixes: Object.fromEntries(Object.entries(range.mixes).map(([hand, mix]) => [
+      hand,
+      Object.fromEntries(Object.entries(mix).map(([actionId, percent]) => [actionIdMap[actionId] ?? actionId, percent])),
+    ])),
+  }),
+});
+
+// Merges entities by id. Returns the merged list, the ids given to remapped entities
+// and the ids of all entities taken from the incoming list.
+const mergeById = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  conflicts: ConflictStrategy,
+  createId: () => string,
+  summary: SectionSummary
+): { items: T[]; idMap: Record<string, string>; importedIds: Set<string> } => {
+  const items = [...current];
+  const idMap: Record<string, string> = {};
+  const importedIds = new Set<string>();
+  incoming.forEach(entity => {
+    const index = items.findIndex(item => item.id === entity.id);
+    if (index === -1) {
+      items.push(entity);
+      importedIds.add(entity.id);
+      summary.added++;
+    } else if (isSame(items[index], entity)) {
+      summary.unchanged++;
+    } else if (conflicts === 'overwrite') {
+      items[index] = entity;
+      importedIds.add(entity.id);
+      summary.overwritten++;
+    } else {
+      idMap[entity.id] = createId();
+      items.push({ ...entity, id: idMap[entity.id] });
+      importedIds.add(idMap[entity.id]);
+      summary.remapped++;
+    }
+  });
+  return { items, idMap, importedIds };
+};
+
+export const planImport = (
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+  mode: ImportMode,
+  conflicts: ConflictStrategy
+): ImportPlan => {
+  const summary = Object.fromEntries(WORKSPACE_SECTIONS.map(section => [section, emptySummary()])) as Record<WorkspaceSection, SectionSummary>;
+
+  if (mode === 'replace') {
+    WORKSPACE_SECTIONS.forEach(section => {
+      summary[section].added = incoming[section].length;
+      summary[section].removed = current[section].length;
+    });
+    return { data: incoming, summary };
+  }
+
+  const createId = createIdFactory();
+
+  // Action buttons first: ranges and weighted buttons refer to them
+  const actions = mergeById(current.actionButtons, incoming.actionButtons, conflicts, createId, summary.actionButtons);
+  const actionIdMap = actions.idMap;
+  const actionButtons = actions.items.map(button =>
+    button.type === 'weighted' && actions.importedIds.has(button.id)
+      ? { ...button, action1Id: actionIdMap[button.action1Id] ?? button.action1Id, action2Id: actionIdMap[button.action2Id] ?? button.action2Id }
+      : button
+  );
+
+  // Folders, keeping range ids unique across the whole workspace
+  const folders = [...current.folders];
+  const rangeIdMap: Record<string, string> = {};
+  const folderIdMap: Record<string, string> = {};
+  incoming.folders.forEach(incomingFolder => {
+    let folder: Folder = { ...incomingFolder, ranges: incomingFolder.ranges.map(range => remapRangeActions(range, actionIdMap)) };
+    const index = folders.findIndex(item => item.id === folder.id);
+    if (index !== -1 && isSame(folders[index], folder)) {
+      summary.folders.unchanged++;
+      return;
+    }
+    const overwrite = index !== -1 && conflicts === 'overwrite';
+    const takenRangeIds = new Set(
+      folders.filter((_, i) => !(overwrite && i === index)).flatMap(item => item.ranges.map(range => range.id))
+    );
+    folder = {
+      ...folder,
+      ranges: folder.ranges.map(range => {
+        if (!takenRangeIds.has(range.id)) return range;
+        rangeIdMap[range.id] = createId();
+        return { ...range, id: rangeIdMap[range.id] };
+      }),
+    };
+    if (index === -1) {
+      folders.push(folder);
+      summary.folders.added++;
+    } else if (overwrite) {
+      folders[index] = folder;
+      summary.folders.overwritten++;
+    } else {
+      folderIdMap[folder.id] = createId();
+      folders.push({ ...folder, id: folderIdMap[folder.id] });
+      summary.folders.remapped++;
+    }
+  });
+
+  const mergedCharts = mergeById(
+    current.charts,
+    incoming.charts.map(chart => ({
+      ...chart,
+      buttons: chart.buttons.map(button => ({ ...button, linkedItem: rangeIdMap[button.linkedItem] ?? button.linkedItem })),
+    })),
+    conflicts,
+    createId,
+    summary.charts
+  );
+  const charts = mergedCharts.items;
+
+  const trainings = mergeById(
+    current.trainings,
+    incoming.trainings.map(training => ({
+      ...training,
+      ranges: training.ranges.map(id => rangeIdMap[id] ?? id),
+      ...(Array.isArray(training.folderIds) && {
+        folderIds: (training.folderIds as string[]).map(id => folderIdMap[id] ?? id),
+      }),
+      ...(typeof training.chartId === 'string' && {
+        chartId: mergedCharts.idMap[training.chartId] ?? training.chartId,
+      }),
+      ...(Array.isArray(training.spots) && {
+        spots: (training.spots as TableSpot[]).map(spot => ({ ...spot, rangeId: rangeIdMap[spot.rangeId] ?? spot.rangeId })),
+      }),
+    })),
+    conflicts,
+    createId,
+    summary.trainings
+  );
+
+  // A session is identified by its training and finish time
+  const statistics = [...current.statistics];
+  const sessionKeys = new Set(statistics.map(stat => `${stat.trainingId}-${stat.timestamp}`));
+  incoming.statistics.forEach(stat => {
+    const remapped = {
+      ...stat,
+      trainingId: trainings.idMap[stat.trainingId] ?? stat.trainingId,
+      ...(stat.answers && {
+        answers: stat.answers.map(answer => ({ ...answer, rangeId: rangeIdMap[answer.rangeId] ?? answer.rangeId })),
+      }),
+    };
+    const key = `${remapped.trainingId}-${remapped.timestamp}`;
+    if (sessionKeys.has(key)) {
+      summary.statistics.unchanged++;
+      return;
+    }
+    sessionKeys.add(key);
+    statistics.push(remapped);
+    summary.statistics.added++;
+  });
+
+  const rangeVersions = mergeById(
+    current.rangeVersions,
+    incoming.rangeVersions.map(version => {
+      const rangeId = rangeIdMap[version.rangeId] ?? version.rangeId;
+      return { ...version, rangeId, range: { ...remapRangeActions(version.range, actionIdMap), id: rangeId } };
+    }),
+    conflicts,
+    createId,
+    summary.rangeVersions
+  ).items;
+
+  // Memory of a hand is keyed by its range and is never kept twice: a second record of
+  // the hand would be asked forever, as answers only update the one under the key.
+  // Keeping both means keeping the one answered last.
+  const handMemory = [...current.handMemory];
+  incoming.handMemory.forEach(memory => {
+    const rangeId = rangeIdMap[memory.rangeId] ?? memory.rangeId;
+    const entity = { ...memory, rangeId, id: getMemoryId(rangeId, memory.hand) };
+    const index = handMemory.findIndex(item => item.id === entity.id);
+    if (index === -1) {
+      handMemory.push(entity);
+      summary.handMemory.added++;
+    } else if (isSame(handMemory[index], entity)
+      || (conflicts === 'keep-both' && handMemory[index].lastSeen >= entity.lastSeen)) {
+      summary.handMemory.unchanged++;
+    } else {
+      handMemory[index] = entity;
+      summary.handMemory.overwritten++;
+    }
+  });
+
+  return { data: { folders, actionButtons, charts, trainings: trainings.items, statistics, rangeVersions, handMemory }, summary };
+};
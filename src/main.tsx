@@ -1,16 +1,28 @@
 import { createRoot } from 'react-dom/client'
 import { AuthProvider } from '@/contexts/AuthContext'
 import { RangeProvider } from '@/contexts/RangeContext'
+import { fallBackToLocalStorage, initStorage } from '@/lib/persistence'
 import App from './App.tsx'
 import './index.css'
 import React from 'react'; // Import React
 
-createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <AuthProvider>
-      <RangeProvider>
-        <App />
-      </RangeProvider>
-    </AuthProvider>
-  </React.StrictMode>
-);
+const render = () => {
+  createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <AuthProvider>
+        <RangeProvider>
+          <App />
+        </RangeProvider>
+      </AuthProvider>
+    </React.StrictMode>
+  );
+};
+
+// Stored data is read before the first render so that providers can load it synchronously.
+// The app opens even when that fails, with what localStorage holds.
+initStorage()
+  .catch((error) => {
+    console.error("Failed to initialize storage, using localStorage:", error);
+    fallBackToLocalStorage();
+  })
+  .finally(render);
@@ -7,38 +7,35 @@ import { Training } from "@/components/Training";
 import { Chart, StoredChart, ChartButton } from "@/components/Chart";
 import { ChartEditor } from "@/components/ChartEditor";
 import { ChartViewer } from "@/components/ChartViewer";
+import { EquityCalculator } from "@/components/EquityCalculator";
+import { WorkspaceBackupDialog } from "@/components/WorkspaceBackupDialog";
+import { StorageUsageIndicator } from "@/components/StorageUsageIndicator";
 import { Button } from "@/components/ui/button";
-import { Monitor, Smartphone } from "lucide-react";
+import { Monitor, Smartphone, DatabaseBackup } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useRangeContext } from "@/contexts/RangeContext";
+import { loadCollection, saveCollection } from "@/lib/persistence";
 
 const Index = () => {
   const { folders } = useRangeContext();
   const allRanges = folders.flatMap(folder => folder.ranges);
 
-  const [activeSection, setActiveSection] = useState<'editor' | 'training' | 'chart' | 'chartEditor' | 'chartViewer'>('chart');
+  const [activeSection, setActiveSection] = useState<'editor' | 'training' | 'chart' | 'equity' | 'chartEditor' | 'chartViewer'>('chart');
   const [selectedChart, setSelectedChart] = useState<StoredChart | null>(null);
   const [forcedLayout, setForcedLayout] = useState<'desktop' | null>(null);
   const [forceMobileOnDesktop, setForceMobileOnDesktop] = useState(false);
+  const [isBackupDialogOpen, setBackupDialogOpen] = useState(false);
   const isMobileDevice = useIsMobile();
 
   // State for all charts, managed in Index.tsx
-  const [charts, setCharts] = useState<StoredChart[]>(() => {
-    try {
-      const storedCharts = localStorage.getItem("userCharts");
-      return storedCharts ? JSON.parse(storedCharts) : [];
-    } catch (error) {
-      console.error("Failed to parse charts from localStorage:", error);
-      return [];
-    }
-  });
+  const [charts, setCharts] = useState<StoredChart[]>(() => loadCollection('charts', []));
 
-  // Effect to save charts to localStorage whenever the charts state changes
+  // Effect to save charts to storage whenever the charts state changes
   useEffect(() => {
     try {
-      localStorage.setItem("userCharts", JSON.stringify(charts));
+      saveCollection('charts', charts);
     } catch (error) {
-      console.error("Failed to save charts to localStorage:", error);
+      console.error("Failed to save charts:", error);
     }
   }, [charts]);
 
@@ -108,6 +105,8 @@ const Index = () => {
         return <RangeEditor isMobileMode={isMobileLayout} />;
       case 'training':
         return <Training isMobileMode={isMobileLayout} />;
+      case 'equity':
+        return <EquityCalculator isMobileMode={isMobileLayout} />;
       case 'chart':
         return (
           <Chart
@@ -163,8 +162,22 @@ const Index = () => {
     </Button>
   );
 
+  const BackupButton = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setBackupDialogOpen(true)}
+      className="flex items-center justify-center h-10 w-10 p-0"
+      title="Резервная копия"
+    >
+      <DatabaseBackup className="h-4 w-4" />
+    </Button>
+  );
+
   const mobileHeaderActions = (
     <div className="flex items-center gap-2 ml-auto">
+      <StorageUsageIndicator />
+      {BackupButton}
       {LayoutToggleButton}
       <UserMenu isMobileMode={isMobileLayout} />
     </div>
@@ -174,6 +187,7 @@ const Index = () => {
     renderSection()
   ) : (
     <div className="min-h-screen bg-background">
+      <WorkspaceBackupDialog open={isBackupDialogOpen} onOpenChange={setBackupDialogOpen} />
       {!isMobileLayout ? (
         // Desktop Layout
         <>
@@ -187,6 +201,8 @@ const Index = () => {
               </div>
               <div className="flex-1 flex items-center justify-end pr-4">
                 <div className="flex items-center gap-2">
+                  <StorageUsageIndicator />
+                  {BackupButton}
                   {LayoutToggleButton}
                   <UserMenu isMobileMode={isMobileLayout} />
                 </div>
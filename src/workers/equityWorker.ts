@@ -0,0 +1,32 @@
+import { createEquityRun, EquityRequest, EquityResult } from "@/lib/equity";
+
+// Runs one equity calculation off the main thread. The hook that starts the worker
+// terminates it to cancel, so the loop does not need to listen for messages.
+
+export type EquityWorkerMessage =
+  | { type: 'progress'; result: EquityResult }
+  | { type: 'done'; result: EquityResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+const STEP_BUDGET = 20_000;
+const PROGRESS_INTERVAL = 200; // ms
+
+const post = (message: EquityWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<EquityRequest>) => {
+  try {
+    const run = createEquityRun(event.data);
+    let lastProgress = Date.now();
+    while (!run.step(STEP_BUDGET)) {
+      if (Date.now() - lastProgress >= PROGRESS_INTERVAL) {
+        post({ type: 'progress', result: run.getResult() });
+        lastProgress = Date.now();
+      }
+    }
+    post({ type: 'done', result: run.getResult() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};